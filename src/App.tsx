@@ -1,39 +1,154 @@
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   client,
   useConfig,
-  useElementData,
   useElementColumns,
   useActionTrigger,
+  useInteraction,
+  usePluginStyle,
+  useVariable,
 } from '@sigmacomputing/plugin';
-import RoundedBarChart from './components/RoundedBarChart';
+import type { CustomPluginConfigOptions, WorkbookSelection } from '@sigmacomputing/plugin';
+import type { ECharts } from 'echarts';
+import RoundedBarChart, { type BarClickModifiers, type BarHit } from './components/RoundedBarChart';
+import DrillBreadcrumbs from './components/DrillBreadcrumbs';
+import ChartDataTable from './components/ChartDataTable';
+import ExportMenu from './components/ExportMenu';
+import FacetGrid, { type FacetPanel } from './components/FacetGrid';
+import SeriesLegend from './components/SeriesLegend';
+import usePaginatedSourceData from './hooks/usePaginatedSourceData';
+import { AGGREGATIONS, aggregate, isAggregation } from './utils/aggregate';
+import { PALETTE_NAMES, isPaletteName, paletteColors, resolveValueColors } from './utils/palettes';
+import {
+  REFERENCE_LABEL_POSITIONS,
+  REFERENCE_LINE_COUNT,
+  REFERENCE_LINE_KINDS,
+  REFERENCE_LINE_STYLES,
+  computeStatistic,
+  isReferenceLineKind,
+  type ReferenceBand,
+  type ReferenceLabelPosition,
+  type ReferenceLine,
+} from './utils/referenceLines';
+import {
+  COLOR_RULE_CONDITIONS,
+  COLOR_RULE_COUNT,
+  isColorRuleCondition,
+  type ColorRule,
+} from './utils/colorRules';
+import { EXPORT_FORMATS, exportCsv, exportImage, type ExportFormat } from './utils/exportChart';
+import { fontStyleFor } from './utils/measureText';
+import { THEME_MODES, isThemeMode, resolveTheme, withContrast } from './utils/theme';
+import { CHANGE_LABEL_STYLES, GOOD_DIRECTIONS, isGoodDirection } from './utils/comparison';
+import { SORT_OPTIONS, alignRows, isSortBy, limitRows, sortRows } from './utils/sortRows';
+import {
+  FALLBACK_FORMATS,
+  createColumnFormatter,
+  createFallbackFormatter,
+  isFallbackFormat,
+  type ColumnFormatInfo,
+} from './utils/format';
 import './App.css';
 
+// Editor-panel fields for reference line `n` (1-based); every line has the
+// same set. The group label states the fixed REFERENCE_LINE_COUNT limit.
+function referenceLineOptions(n: number): CustomPluginConfigOptions[] {
+  return [
+    { name: `refLine${n}Section`, type: 'group', label: `Reference Line ${n} of ${REFERENCE_LINE_COUNT}` },
+    { name: `refLine${n}Type`, type: 'dropdown', label: 'Type', values: [...REFERENCE_LINE_KINDS], defaultValue: 'None' },
+    { name: `refLine${n}Value`, type: 'text', label: 'Constant Value / Percentile (0–100)', placeholder: 'e.g. 1000 or 90' },
+    { name: `refLine${n}Column`, type: 'column', source: 'source', allowMultiple: false, label: 'Value Column (Type = Column)' },
+    { name: `refLine${n}Color`, type: 'color', label: 'Line Color' },
+    { name: `refLine${n}Style`, type: 'dropdown', label: 'Line Style', values: [...REFERENCE_LINE_STYLES], defaultValue: 'Dashed' },
+    { name: `refLine${n}Width`, type: 'dropdown', label: 'Line Thickness (px)', values: ['1', '2', '3', '4'], defaultValue: '1' },
+    { name: `refLine${n}Label`, type: 'text', label: 'Label Text', placeholder: 'Auto (type and value)' },
+    { name: `refLine${n}LabelPosition`, type: 'dropdown', label: 'Label Position', values: [...REFERENCE_LABEL_POSITIONS], defaultValue: 'Top' },
+  ];
+}
+
+// Editor-panel fields for color rule `n` (1-based).
+function colorRuleOptions(n: number): CustomPluginConfigOptions[] {
+  return [
+    { name: `colorRule${n}Section`, type: 'group', label: `Color Rule ${n}` },
+    { name: `colorRule${n}Condition`, type: 'dropdown', label: 'Condition (target conditions off when normalized)', values: [...COLOR_RULE_CONDITIONS], defaultValue: 'None' },
+    { name: `colorRule${n}Threshold`, type: 'text', label: 'Threshold / N', placeholder: 'e.g. 1000 or 5' },
+    { name: `colorRule${n}Variable`, type: 'variable', label: 'Threshold / N from Control (overrides the above)' },
+    { name: `colorRule${n}Color`, type: 'color', label: 'Color (scale: low end)' },
+    { name: `colorRule${n}Measure`, type: 'column', source: 'source', allowMultiple: false, label: 'Scale Measure (Condition = Color Scale)' },
+    { name: `colorRule${n}EndColor`, type: 'color', label: 'Scale High End Color' },
+  ];
+}
+
+// Editor toggle for one export format, e.g. 'exportPNG2x'.
+function exportConfigName(format: ExportFormat): string {
+  return `export${format.replace(/\s+/g, '')}`;
+}
+
+// "Between Lines 1 & 2" etc. — every pair of reference lines.
+const REFERENCE_BAND_OPTIONS = Array.from({ length: REFERENCE_LINE_COUNT }, (_, i) =>
+  Array.from({ length: REFERENCE_LINE_COUNT - i - 1 }, (_, j) => `Between Lines ${i + 1} & ${i + j + 2}`),
+).flat();
+
 client.config.configureEditorPanel([
   // ── Data ──────────────────────────────────────────────────────────────────
   { name: 'dataSection', type: 'group', label: 'Data' },
   { name: 'source', type: 'element', label: 'Data Source' },
   { name: 'categoryColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Category (Y Axis)' },
+  { name: 'drillColumns', type: 'column', source: 'source', allowMultiple: true, label: 'Drill-down Levels (below Category, in order)' },
   { name: 'valueColumns', type: 'column', source: 'source', allowMultiple: true, label: 'Value Columns (stacked series)' },
+  { name: 'aggregation', type: 'dropdown', label: 'Aggregation (duplicate categories)', values: [...AGGREGATIONS], defaultValue: 'Sum' },
+  { name: 'sortBy', type: 'dropdown', label: 'Sort Categories By', values: [...SORT_OPTIONS], defaultValue: 'Data Order' },
+  { name: 'sortSeries', type: 'column', source: 'source', allowMultiple: false, label: 'Sort Series (when sorting by Series)' },
+  { name: 'sortDirection', type: 'dropdown', label: 'Sort Direction', values: ['Descending', 'Ascending'], defaultValue: 'Descending' },
+  { name: 'topN', type: 'dropdown', label: 'Show Top N Categories', values: ['All', '5', '10', '15', '20', '25', '50', '100'], defaultValue: 'All' },
+  { name: 'otherLabel', type: 'text', label: '"Other" Bar Label', defaultValue: 'Other', placeholder: 'Other' },
+  { name: 'facetColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Facet By (small multiples, optional)' },
+  { name: 'facetGridColumns', type: 'dropdown', label: 'Facet Columns', values: ['Auto', '1', '2', '3', '4', '5', '6'], defaultValue: 'Auto' },
+  { name: 'rowLimit', type: 'dropdown', label: 'Max Rows to Load', values: ['25000', '50000', '100000', '250000', '500000', '1000000'], defaultValue: '100000' },
 
   // ── Chart Appearance ──────────────────────────────────────────────────────
   { name: 'appearanceSection', type: 'group', label: 'Chart Appearance' },
   { name: 'title', type: 'text', label: 'Chart Title', defaultValue: '', placeholder: 'Enter chart title' },
   { name: 'showTitle', type: 'toggle', label: 'Show Title', defaultValue: true },
+  { name: 'orientation', type: 'dropdown', label: 'Orientation', values: ['Horizontal', 'Vertical'], defaultValue: 'Horizontal' },
   { name: 'cornerRadius', type: 'dropdown', label: 'Corner Radius (px)', values: ['0', '4', '8', '12', '16', '20', '24'], defaultValue: '8' },
   { name: 'barHeight', type: 'dropdown', label: 'Bar Height (px)', values: ['12', '16', '20', '24', '28', '32'], defaultValue: '20' },
+  { name: 'rowGap', type: 'dropdown', label: 'Row Gap (px)', values: ['4', '8', '12', '16', '24'], defaultValue: '8' },
+  { name: 'scrollLongLists', type: 'toggle', label: 'Scroll When Rows Don\'t Fit', defaultValue: true },
   { name: 'chartPadding', type: 'dropdown', label: 'Chart Padding (px)', values: ['0', '8', '16', '24'], defaultValue: '16' },
   { name: 'showPadding', type: 'toggle', label: 'Show Padding', defaultValue: true },
-  { name: 'labelStyle', type: 'dropdown', label: 'Value Label Style', values: ['None', 'First Value / Total', 'First Value Only'], defaultValue: 'None' },
-  { name: 'midBarCurves', type: 'toggle', label: 'Flowing Mid-Bar Curves', defaultValue: true },
+  { name: 'labelStyle', type: 'dropdown', label: 'Value Label Style', values: ['None', 'First Value / Total', 'First Value Only', ...CHANGE_LABEL_STYLES, 'Template'], defaultValue: 'None' },
+  { name: 'barLabelTemplate', type: 'text', label: 'Bar Label Template (style = Template)', defaultValue: '{total}', placeholder: '{total} of {target} ({pct:0})' },
+  { name: 'segmentLabels', type: 'toggle', label: 'Label Inside Each Segment', defaultValue: false },
+  { name: 'segmentLabelTemplate', type: 'text', label: 'Segment Label Template', defaultValue: '{value}', placeholder: '{value} ({pct:0})' },
+  { name: 'numberFormat', type: 'dropdown', label: 'Number Format (unformatted columns)', values: [...FALLBACK_FORMATS], defaultValue: 'Fixed Decimals' },
+  { name: 'decimalPlaces', type: 'dropdown', label: 'Decimal Places', values: ['0', '1', '2', '3', '4'], defaultValue: '0' },
+  { name: 'seriesLayout', type: 'dropdown', label: 'Series Layout', values: ['Stacked', 'Grouped'], defaultValue: 'Stacked' },
+  { name: 'midBarCurves', type: 'toggle', label: 'Flowing Mid-Bar Curves (stacked)', defaultValue: true },
+  { name: 'groupBarGap', type: 'dropdown', label: 'Gap Between Bars (% of bar, grouped)', values: ['0', '10', '20', '30', '50'], defaultValue: '20' },
+  { name: 'groupCategoryGap', type: 'dropdown', label: 'Gap Between Groups (% of band, grouped)', values: ['10', '20', '30', '40', '50'], defaultValue: '30' },
+  { name: 'normalize', type: 'toggle', label: 'Normalize to 100% (part-to-whole)', defaultValue: false },
+  { name: 'centerCategoryAxis', type: 'toggle', label: 'Center Category Axis on Zero (negative values)', defaultValue: false },
 
   // ── Legend & Axes ─────────────────────────────────────────────────────────
   { name: 'legendSection', type: 'group', label: 'Legend & Axes' },
   { name: 'showLegend', type: 'toggle', label: 'Show Legend', defaultValue: true },
   { name: 'legendPosition', type: 'dropdown', label: 'Legend Position', values: ['Bottom', 'Top', 'Left', 'Right', 'Top Right', 'Bottom Right'], defaultValue: 'Bottom' },
+  { name: 'hiddenSeriesVariable', type: 'variable', allowedTypes: ['text-list'], label: 'Hidden Series: List Control (optional)' },
   { name: 'showXAxis', type: 'toggle', label: 'Show X Axis Label', defaultValue: true },
   { name: 'showYAxis', type: 'toggle', label: 'Show Y Axis Labels', defaultValue: true },
 
+  // ── Theme ─────────────────────────────────────────────────────────────────
+  { name: 'themeSection', type: 'group', label: 'Theme' },
+  { name: 'themeMode', type: 'dropdown', label: 'Text & Gridline Theme', values: [...THEME_MODES], defaultValue: 'Auto' },
+  { name: 'backgroundColor', type: 'color', label: 'Custom Background (optional)' },
+
+  // ── Export ────────────────────────────────────────────────────────────────
+  { name: 'exportSection', type: 'group', label: 'Export Menu' },
+  ...EXPORT_FORMATS.map((format): CustomPluginConfigOptions => (
+    { name: exportConfigName(format), type: 'toggle', label: `Offer ${format}${format === 'CSV' ? ' (aggregated data)' : ''}`, defaultValue: true }
+  )),
+
   // ── Font ──────────────────────────────────────────────────────────────────
   { name: 'fontSection', type: 'group', label: 'Font' },
   {
@@ -49,41 +164,101 @@ client.config.configureEditorPanel([
   { name: 'behaviorSection', type: 'group', label: 'Behavior' },
   { name: 'interactable', type: 'toggle', label: 'Interactable (enable clicks)', defaultValue: true },
   { name: 'showHoverTooltip', type: 'toggle', label: 'Show Hover Tooltip', defaultValue: true },
+  { name: 'tooltipFields', type: 'column', source: 'source', allowMultiple: true, label: 'Tooltip Fields (optional)' },
   { name: 'highlightBarOnHover', type: 'toggle', label: 'Highlight Bar on Hover', defaultValue: true },
 
   // ── Target Line ────────────────────────────────────────────────────────────
   { name: 'targetLineSection', type: 'group', label: 'Target Line' },
   { name: 'showTargetLine', type: 'toggle', label: 'Show Target Line', defaultValue: false },
+  { name: 'targetMode', type: 'dropdown', label: 'Target Mode', values: ['Global Line', 'Per-row Target'], defaultValue: 'Global Line' },
   { name: 'targetLineColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Target Line Value (column or formula)' },
   { name: 'targetLineColor', type: 'color', label: 'Target Line Color' },
   { name: 'targetLineThickness', type: 'dropdown', label: 'Target Line Thickness (px)', values: ['1', '2', '3', '4', '5'], defaultValue: '2' },
   { name: 'targetLineHeight', type: 'dropdown', label: 'Target Line Height', values: ['20%', '40%', '60%', '80%', '100%'], defaultValue: '100%' },
+  { name: 'highlightAboveTarget', type: 'toggle', label: 'Color Bars Above Target (per-row; off when normalized)', defaultValue: false },
+  { name: 'aboveTargetColor', type: 'color', label: 'Above Target Color' },
+
+  // ── Comparison ────────────────────────────────────────────────────────────
+  { name: 'comparisonSection', type: 'group', label: 'Period Comparison' },
+  { name: 'comparisonColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Comparison Value (e.g. last period, optional)' },
+  { name: 'comparisonPlacement', type: 'dropdown', label: 'Comparison Bar (Beside needs Grouped or Mid-Bar Curves off; not drawn when normalized)', values: ['Behind', 'Beside', 'Hidden'], defaultValue: 'Behind' },
+  { name: 'goodDirection', type: 'dropdown', label: 'Good Direction', values: [...GOOD_DIRECTIONS], defaultValue: 'Increase is Good' },
+
+  // ── Reference Lines ───────────────────────────────────────────────────────
+  ...Array.from({ length: REFERENCE_LINE_COUNT }, (_, i) => referenceLineOptions(i + 1)).flat(),
+  { name: 'referenceBandSection', type: 'group', label: 'Reference Band' },
+  { name: 'referenceBand', type: 'dropdown', label: 'Shade Between', values: ['None', ...REFERENCE_BAND_OPTIONS], defaultValue: 'None' },
+  { name: 'referenceBandColor', type: 'color', label: 'Band Color' },
 
   // ── Colors ────────────────────────────────────────────────────────────────
   { name: 'colorsSection', type: 'group', label: 'Colors' },
+  { name: 'palette', type: 'dropdown', label: 'Palette', values: PALETTE_NAMES, defaultValue: 'Default' },
+  { name: 'colorColumn', type: 'column', source: 'source', allowMultiple: false, label: 'Color by Column (hex or category, optional)' },
   { name: 'color1', type: 'color', label: 'Series 1 Color' },
   { name: 'color2', type: 'color', label: 'Series 2 Color' },
   { name: 'color3', type: 'color', label: 'Series 3 Color' },
 
+  // ── Color Rules ───────────────────────────────────────────────────────────
+  ...Array.from({ length: COLOR_RULE_COUNT }, (_, i) => colorRuleOptions(i + 1)).flat(),
+
   // ── Interactions ──────────────────────────────────────────────────────────
   { name: 'interactionsSection', type: 'group', label: 'Interactions' },
-  { name: 'clickVariable', type: 'variable', label: 'On Click: Set Variable 1 (optional)' },
-  { name: 'clickVariable2', type: 'variable', label: 'On Click: Set Variable 2 (optional)' },
-  { name: 'clickVariable3', type: 'variable', label: 'On Click: Set Variable 3 (optional)' },
+  { name: 'clickVariable', type: 'variable', label: 'On Click: Set Variable 1 (drill level 1, optional)' },
+  { name: 'clickVariable2', type: 'variable', label: 'On Click: Set Variable 2 (drill level 2, optional)' },
+  { name: 'clickVariable3', type: 'variable', label: 'On Click: Set Variable 3 (drill level 3, optional)' },
+  { name: 'clickSeriesVariable', type: 'variable', label: 'On Click: Set Series Name Variable (optional)' },
+  { name: 'clickValueVariable', type: 'variable', label: 'On Click: Set Segment Value Variable (optional)' },
+  { name: 'facetVariable', type: 'variable', label: 'On Click: Set Facet Variable (optional)' },
   { name: 'onClickAction', type: 'action-trigger', label: 'On Bar Click' },
+  { name: 'interaction', type: 'interaction', label: 'Cross-filter Selection (optional)' },
+  { name: 'selectionMode', type: 'dropdown', label: 'Selection Mode', values: ['Single Click', 'Multi-select'], defaultValue: 'Single Click' },
+  { name: 'selectionVariable', type: 'variable', allowedTypes: ['text-list'], label: 'Multi-select: List Control (optional)' },
 ]);
 
 export interface BarRow {
   category: string;
   values: number[];
   total: number;
+  // Per-row target (Target Mode 'Per-row Target'), aggregated like the values.
+  target?: number;
+  // Comparison-period value for the whole bar, aggregated like the values.
+  comparison?: number;
+  // From the "Color by column" field; overrides the series colors for this bar.
+  color?: string;
+  // Color-rule scale measures by column id, aggregated like the values.
+  measures?: Record<string, number>;
+  // "Tooltip fields" for this category, formatted for display and in field order.
+  tooltipValues?: string[];
+  // Set only on the Top-N "Other" bar: the categories folded into it.
+  otherCategories?: string[];
+}
+
+// The rows of one small-multiples panel (facet unset for an unfaceted chart).
+export interface RowGroup {
+  facet?: string;
+  rows: BarRow[];
 }
 
-const DEFAULT_COLORS = ['#2563EB', '#93C5FD', '#E2E8F0', '#60A5FA', '#BFDBFE', '#DBEAFE'];
+// The column ids a column field holds: a list when it allows several columns,
+// a single id otherwise, nothing when unset.
+function toIdList(value: unknown): string[] {
+  if (Array.isArray(value)) return value as string[];
+  return typeof value === 'string' && value ? [value] : [];
+}
 
 function App() {
   const config = useConfig();
-  const sigmaData = useElementData(config.source);
+
+  // ── Theme ─────────────────────────────────────────────────────────────────
+  // A custom background is painted behind the chart; otherwise the workbook's
+  // own background shows through and only decides the text theme.
+  const pluginStyle = usePluginStyle();
+  const customBackground = (config.backgroundColor as string | undefined) || undefined;
+  const background = customBackground ?? pluginStyle?.backgroundColor;
+  const theme = resolveTheme(isThemeMode(config.themeMode) ? config.themeMode : 'Auto', background);
+  const exportFormats = EXPORT_FORMATS.filter((format) => (config[exportConfigName(format)] as boolean | undefined) ?? true);
+  const rowLimit = parseInt((config.rowLimit as string | undefined) ?? '100000', 10);
+  const { data: sigmaData, loading: dataLoading, truncated } = usePaginatedSourceData(config.source, rowLimit);
   const columnInfo = useElementColumns(config.source);
   const triggerOnClick = useActionTrigger(config.onClickAction);
   // Keep a ref so onBarClick never needs triggerOnClick as a dependency.
@@ -93,10 +268,16 @@ function App() {
   useEffect(() => { triggerOnClickRef.current = triggerOnClick; }, [triggerOnClick]);
 
   const title = (config.title as string | undefined) ?? '';
+  const orientation = (config.orientation as string | undefined) ?? 'Horizontal';
   const cornerRadius = parseInt((config.cornerRadius as string | undefined) ?? '8', 10);
   const barHeight = parseInt((config.barHeight as string | undefined) ?? '20', 10);
+  const rowGap = parseInt((config.rowGap as string | undefined) ?? '8', 10);
+  const scrollLongLists = (config.scrollLongLists as boolean | undefined) ?? true;
   const chartPadding = parseInt((config.chartPadding as string | undefined) ?? '16', 10);
   const labelStyle = (config.labelStyle as string | undefined) ?? 'None';
+  const barLabelTemplate = (config.barLabelTemplate as string | undefined) || '{total}';
+  const segmentLabels = (config.segmentLabels as boolean | undefined) ?? false;
+  const segmentLabelTemplate = (config.segmentLabelTemplate as string | undefined) || '{value}';
   const showTitle = (config.showTitle as boolean | undefined) ?? true;
   const showLegend = (config.showLegend as boolean | undefined) ?? true;
   const legendPosition = (config.legendPosition as string | undefined) ?? 'Bottom';
@@ -108,39 +289,498 @@ function App() {
   const interactable = (config.interactable as boolean | undefined) ?? true;
   const showHoverTooltip = (config.showHoverTooltip as boolean | undefined) ?? true;
   const highlightBarOnHover = (config.highlightBarOnHover as boolean | undefined) ?? true;
+  const seriesLayout = (config.seriesLayout as string | undefined) ?? 'Stacked';
   const midBarCurves = (config.midBarCurves as boolean | undefined) ?? true;
+  const groupBarGap = parseInt((config.groupBarGap as string | undefined) ?? '20', 10);
+  const groupCategoryGap = parseInt((config.groupCategoryGap as string | undefined) ?? '30', 10);
+  const normalize = (config.normalize as boolean | undefined) ?? false;
+  const centerCategoryAxis = (config.centerCategoryAxis as boolean | undefined) ?? false;
+  const numberFormat = isFallbackFormat(config.numberFormat) ? config.numberFormat : 'Fixed Decimals';
+  const decimalPlaces = parseInt((config.decimalPlaces as string | undefined) ?? '0', 10);
+  const aggregation = isAggregation(config.aggregation) ? config.aggregation : 'Sum';
+  const sortBy = isSortBy(config.sortBy) ? config.sortBy : 'Data Order';
+  const sortDescending = ((config.sortDirection as string | undefined) ?? 'Descending') === 'Descending';
+  const topN = parseInt((config.topN as string | undefined) ?? 'All', 10);
+  const otherLabel = (config.otherLabel as string | undefined) || 'Other';
   const showTargetLine = (config.showTargetLine as boolean | undefined) ?? false;
   const targetLineColId = config.targetLineColumn as string | undefined;
+  // In normalize mode targets are read on the 0–100 percent axis. A column
+  // formatted as a percentage holds fractions (0.75 = 75%), so scale those up.
+  const targetScale = normalize && targetLineColId &&
+    /%$/.test((columnInfo?.[targetLineColId] as ColumnFormatInfo | undefined)?.format?.format ?? '')
+    ? 100
+    : 1;
   // Read the first numeric value from the selected column as the target position
   const targetLineValue = (() => {
     if (!targetLineColId || !sigmaData) return NaN;
     const col = sigmaData[targetLineColId];
     if (!Array.isArray(col) || col.length === 0) return NaN;
     const v = Number(col[0]);
-    return isNaN(v) ? NaN : v;
+    return isNaN(v) ? NaN : v * targetScale;
   })();
-  const targetLineColor = (config.targetLineColor as string | undefined) ?? '#000000';
+  const targetLineColor = (config.targetLineColor as string | undefined) ?? (theme.dark ? theme.strong : '#000000');
   const targetLineThickness = parseInt((config.targetLineThickness as string | undefined) ?? '2', 10);
   const targetLineHeight = parseInt((config.targetLineHeight as string | undefined) ?? '100', 10);
+  const targetMode = (config.targetMode as string | undefined) ?? 'Global Line';
+  const perRowTargets = showTargetLine && targetMode === 'Per-row Target' && !!targetLineColId;
+  const highlightAboveTarget = (config.highlightAboveTarget as boolean | undefined) ?? false;
+  const aboveTargetColor = (config.aboveTargetColor as string | undefined) ?? '#16A34A';
+  const comparisonColId = config.comparisonColumn as string | undefined;
+  const comparisonPlacement = (config.comparisonPlacement as string | undefined) ?? 'Behind';
+  const goodDirection = isGoodDirection(config.goodDirection) ? config.goodDirection : 'Increase is Good';
 
-  const userColors = [
-    (config.color1 as string | undefined) ?? DEFAULT_COLORS[0],
-    (config.color2 as string | undefined) ?? DEFAULT_COLORS[1],
-    (config.color3 as string | undefined) ?? DEFAULT_COLORS[2],
-    ...DEFAULT_COLORS.slice(3),
-  ];
+
+  // ── Drill-down ────────────────────────────────────────────────────────────
+  // The category column is the top of the hierarchy; each drill column is one
+  // level further down. drillPath holds the category clicked at each level
+  // above the one shown, so its length is the current depth.
+  const hierarchy = useMemo(
+    () => (config.categoryColumn ? [config.categoryColumn as string, ...toIdList(config.drillColumns)] : []),
+    [config.categoryColumn, config.drillColumns],
+  );
+  const [drillPath, setDrillPath] = useState<string[]>([]);
+  // A different hierarchy (or source) invalidates the path.
+  const hierarchyKey = `${config.source}:${hierarchy.join(',')}`;
+  useEffect(() => { setDrillPath([]); }, [hierarchyKey]);
+  const drillDepth = Math.min(drillPath.length, Math.max(0, hierarchy.length - 1));
+  const canDrill = drillDepth < hierarchy.length - 1;
+  // Source rows under the drilled-into categories.
+  const inDrillPath = useCallback(
+    (i: number) => drillPath.slice(0, drillDepth).every((cat, level) => String(sigmaData[hierarchy[level]]?.[i] ?? '') === cat),
+    [drillPath, drillDepth, sigmaData, hierarchy],
+  );
+
+  // ── Data transform ────────────────────────────────────────────────────────
+  const catId = hierarchy[drillDepth] as string | undefined;
+  const valueIdArray = useMemo(() => toIdList(config.valueColumns), [config.valueColumns]);
+
+  const seriesNames: string[] = valueIdArray.map(
+    (id) => (columnInfo?.[id]?.name as string | undefined) ?? id,
+  );
+
+  // ── Hidden series ─────────────────────────────────────────────────────────
+  // Clicking a legend entry hides that series. The set lives in the bound
+  // list control when there is one (so it survives reloads and can be shared),
+  // otherwise in local state.
+  const [hiddenSeriesVariable, setHiddenSeriesVariable] = useVariable(config.hiddenSeriesVariable);
+  const [localHiddenSeries, setLocalHiddenSeries] = useState<string[]>([]);
+  const hiddenSeries: string[] = (() => {
+    if (!config.hiddenSeriesVariable) return localHiddenSeries;
+    const value = hiddenSeriesVariable?.defaultValue?.value as unknown;
+    return Array.isArray(value) ? value.filter((v) => v !== null && v !== undefined).map((v) => String(v)) : [];
+  })();
+  const hiddenSet = new Set(hiddenSeries);
+
+  const toggleSeries = useCallback(
+    (name: string) => {
+      const next = hiddenSeries.includes(name) ? hiddenSeries.filter((n) => n !== name) : [...hiddenSeries, name];
+      if (config.hiddenSeriesVariable) {
+        try { setHiddenSeriesVariable(...next); }
+        catch (err) { console.warn('[plugin] setVariable failed:', err); }
+      } else {
+        setLocalHiddenSeries(next);
+      }
+    },
+    [hiddenSeries, config.hiddenSeriesVariable, setHiddenSeriesVariable],
+  );
+
+  // Palette colors for every series, with the Series 1–3 pickers on top.
+  const palette = isPaletteName(config.palette) ? config.palette : 'Default';
+  // Palette colors are lifted for contrast on dark backgrounds; picked colors are left alone.
+  const userColors = withContrast(paletteColors(palette, Math.max(valueIdArray.length, 3)), background, theme).map(
+    (color, i) => (i < 3 ? (config[`color${i + 1}`] as string | undefined) : undefined) ?? color,
+  );
+  const colorColId = config.colorColumn as string | undefined;
+
+  // ── Color rules ───────────────────────────────────────────────────────────
+  // A threshold bound to a workbook control wins over the typed one, so
+  // business users can tune rules from the workbook. (One useVariable per
+  // slot: hooks can't be called in a loop.)
+  const [colorRuleVariable1] = useVariable(config.colorRule1Variable);
+  const [colorRuleVariable2] = useVariable(config.colorRule2Variable);
+  const [colorRuleVariable3] = useVariable(config.colorRule3Variable);
+  const colorRules = useMemo(() => {
+    const colorRuleVariables = [colorRuleVariable1, colorRuleVariable2, colorRuleVariable3];
+    return Array.from({ length: COLOR_RULE_COUNT }, (_, i): ColorRule | null => {
+      const key = `colorRule${i + 1}`;
+      const conditionValue: unknown = config[`${key}Condition`];
+      if (!isColorRuleCondition(conditionValue) || conditionValue === 'None') return null;
+      const fromControl = colorRuleVariables[i]?.defaultValue?.value as unknown;
+      const threshold = fromControl !== undefined && fromControl !== null && fromControl !== ''
+        ? Number(fromControl)
+        : parseFloat((config[`${key}Threshold`] as string | undefined) ?? '');
+      const needsThreshold = !['Above Target', 'Below Target', 'Color Scale'].includes(conditionValue);
+      if (needsThreshold && isNaN(threshold)) return null;
+      const measure = config[`${key}Measure`] as string | undefined;
+      if (conditionValue === 'Color Scale' && !measure) return null;
+      return {
+        condition: conditionValue,
+        threshold,
+        color: (config[`${key}Color`] as string | undefined) ?? '#DC2626',
+        measure,
+        endColor: (config[`${key}EndColor`] as string | undefined) ?? '#16A34A',
+      };
+    }).filter((rule): rule is ColorRule => rule !== null);
+  }, [config, colorRuleVariable1, colorRuleVariable2, colorRuleVariable3]);
+
+  // Each series uses its own column's Sigma format; totals and axis ticks mix
+  // series, so they only use a column format when every series shares it.
+  const fallbackFormatter = useMemo(() => createFallbackFormatter(numberFormat, decimalPlaces), [numberFormat, decimalPlaces]);
+  const { seriesFormatters, totalFormatter } = useMemo(() => {
+    const formatSpecs = valueIdArray.map(
+      (id) => (columnInfo?.[id] as ColumnFormatInfo | undefined)?.format?.format,
+    );
+    const sharedFormatSpec = formatSpecs.every((spec) => spec === formatSpecs[0]) ? formatSpecs[0] : undefined;
+    return {
+      seriesFormatters: formatSpecs.map((spec) => createColumnFormatter(spec, fallbackFormatter)),
+      totalFormatter: createColumnFormatter(sharedFormatSpec, fallbackFormatter),
+    };
+  }, [valueIdArray, columnInfo, fallbackFormatter]);
+
+  // ── Tooltip fields ────────────────────────────────────────────────────────
+  // Numeric fields are aggregated like the values and shown in their column
+  // format; other fields list their distinct values for the category.
+  const tooltipFieldIds = useMemo(() => toIdList(config.tooltipFields), [config.tooltipFields]);
+  const tooltipFieldNames = tooltipFieldIds.map((id) => (columnInfo?.[id]?.name as string | undefined) ?? id);
+  const tooltipFieldText = useCallback(
+    (id: string, cells: unknown[]): string => {
+      const type = columnInfo?.[id]?.columnType;
+      if (type === 'number' || type === 'integer') {
+        const spec = (columnInfo?.[id] as ColumnFormatInfo | undefined)?.format?.format;
+        return createColumnFormatter(spec, fallbackFormatter)(aggregate(cells, aggregation));
+      }
+      const present = cells.filter((c) => c !== null && c !== undefined && c !== '');
+      const distinct = Array.from(new Set(present.map((c) => (type === 'datetime' ? new Date(c as number).toLocaleDateString() : String(c)))));
+      const MAX_LISTED = 3;
+      return distinct.length > MAX_LISTED
+        ? `${distinct.slice(0, MAX_LISTED).join(', ')} +${distinct.length - MAX_LISTED} more`
+        : distinct.join(', ');
+    },
+    [columnInfo, fallbackFormatter, aggregation],
+  );
+
+  const measureIds = useMemo(() => Array.from(new Set(
+    colorRules.map((rule) => (rule.condition === 'Color Scale' ? rule.measure : undefined)).filter((id): id is string => !!id),
+  )), [colorRules]);
+
+
+  // One aggregated row per category over the source rows `include` accepts,
+  // in first-seen order. With `foldInto`, every accepted source row goes into
+  // a single row of that name instead (the "Other" bar).
+  const groupRows = useCallback(
+    (include: (i: number) => boolean, foldInto?: string): BarRow[] => {
+      if (!sigmaData || !columnInfo || !catId || valueIdArray.length === 0) return [];
+      const categories = sigmaData[catId] as unknown[] | undefined;
+      if (!categories || !Array.isArray(categories)) return [];
+
+      // Group the raw cells of every value column by category (Map keeps
+      // first-seen category order), then reduce each group with the chosen
+      // aggregation so repeated categories are combined rather than dropped.
+      // The per-row target, comparison, color-scale measure and tooltip field
+      // columns, when set, ride along as extra groups after the value columns.
+      const extraIds = [perRowTargets ? targetLineColId : undefined, comparisonColId, ...measureIds, ...tooltipFieldIds];
+      const groupedIds = [...valueIdArray, ...extraIds.filter((id): id is string => !!id)];
+      const cellsOf = (cells: unknown[][], id: string | undefined): unknown[] =>
+        id ? cells[groupedIds.indexOf(id, valueIdArray.length)] : [];
+      const hasValue = (cells: unknown[]) => cells.some((c) => c !== null && c !== undefined && c !== '');
+      const groups = new Map<string, unknown[][]>();
+      categories.forEach((cat, i) => {
+        if (!include(i)) return;
+        const category = foldInto ?? String(cat ?? '');
+        const cells = groups.get(category) ?? groupedIds.map(() => []);
+        if (!groups.has(category)) groups.set(category, cells);
+        groupedIds.forEach((id, gi) => cells[gi].push(sigmaData[id]?.[i]));
+      });
+      // "Color by column": the first non-blank cell per category wins.
+      const colorCells = new Map<string, string>();
+      if (colorColId && foldInto === undefined) {
+        categories.forEach((cat, i) => {
+          if (!include(i)) return;
+          const category = String(cat ?? '');
+          const cell = sigmaData[colorColId]?.[i];
+          if (!colorCells.has(category) && cell !== null && cell !== undefined && cell !== '') {
+            colorCells.set(category, String(cell).trim());
+          }
+        });
+      }
+      const categoryOrder = Array.from(groups.keys());
+      const rowColors = resolveValueColors(categoryOrder.map((c) => colorCells.get(c)), palette);
+
+      return Array.from(groups, ([category, cells], ri): BarRow => {
+        const values = cells.slice(0, valueIdArray.length).map((c) => aggregate(c, aggregation));
+        const total = values.reduce((s, v) => s + v, 0);
+        const targetCells = cellsOf(cells, extraIds[0]);
+        const comparisonCells = cellsOf(cells, extraIds[1]);
+        const row: BarRow = { category, values, total };
+        if (hasValue(targetCells)) row.target = aggregate(targetCells, aggregation) * targetScale;
+        if (hasValue(comparisonCells)) row.comparison = aggregate(comparisonCells, aggregation);
+        if (measureIds.length > 0) {
+          row.measures = Object.fromEntries(measureIds.map((id) => [id, aggregate(cellsOf(cells, id), aggregation)]));
+        }
+        if (tooltipFieldIds.length > 0) {
+          row.tooltipValues = tooltipFieldIds.map((id) => tooltipFieldText(id, cellsOf(cells, id)));
+        }
+        if (rowColors[ri]) row.color = rowColors[ri];
+        return row;
+      });
+    },
+    [sigmaData, columnInfo, catId, valueIdArray, perRowTargets, targetLineColId, comparisonColId, measureIds, tooltipFieldIds, colorColId, palette, aggregation, targetScale, tooltipFieldText],
+  );
+
+  // The "Other" bar over the source rows `include` accepts whose category is
+  // one of `folded`, aggregated from the raw cells like any other bar.
+  const foldRows = useCallback(
+    (include: (i: number) => boolean, folded: string[]): BarRow => {
+      const members = new Set(folded);
+      const categories = (catId ? sigmaData[catId] : undefined) as unknown[] | undefined;
+      return groupRows((i) => include(i) && members.has(String(categories?.[i] ?? '')), otherLabel)[0]
+        ?? { category: otherLabel, values: valueIdArray.map(() => 0), total: 0 };
+    },
+    [groupRows, catId, sigmaData, otherLabel, valueIdArray],
+  );
+
+  // Aggregating walks every source row (up to the row limit), so it's only
+  // redone when the data or the settings it reads change.
+  const chartData = useMemo(() => {
+    const sorted = sortRows(groupRows(inDrillPath), {
+      sortBy,
+      descending: sortDescending,
+      seriesIndex: valueIdArray.indexOf(config.sortSeries as string),
+    });
+    return limitRows(sorted, topN, (folded) => foldRows(inDrillPath, folded));
+  }, [groupRows, foldRows, inDrillPath, sortBy, sortDescending, valueIdArray, config.sortSeries, topN]);
+
+  // ── Facets (small multiples) ──────────────────────────────────────────────
+  // One panel per facet value, in first-seen order. Every panel is laid out
+  // against the full chartData so category order, Top-N folding and colors
+  // match across panels.
+  const facetColId = config.facetColumn as string | undefined;
+  const facetColumnCount = parseInt((config.facetGridColumns as string | undefined) ?? 'Auto', 10) || 0;
+  const facets = useMemo((): { value: string; rows: BarRow[] }[] => {
+    const col = facetColId ? sigmaData[facetColId] : undefined;
+    if (!Array.isArray(col) || chartData.length === 0) return [];
+    const facetOf = (i: number) => String(col[i] ?? '');
+    const values = Array.from(new Set(col.map((_, i) => i).filter(inDrillPath).map(facetOf)));
+    return values.map((value) => {
+      const inFacet = (i: number) => inDrillPath(i) && facetOf(i) === value;
+      return { value, rows: alignRows(groupRows(inFacet), chartData, (folded) => foldRows(inFacet, folded)) };
+    });
+  }, [facetColId, sigmaData, chartData, inDrillPath, groupRows, foldRows]);
+  const facetName = facetColId ? (columnInfo?.[facetColId]?.name as string | undefined) ?? '' : '';
+  // The grid stands in for each panel's export menu and data table: panels
+  // hand up their ECharts instances. (FacetGrid keeps the live region, so an
+  // announcement doesn't re-render this component.)
+  const facetChartsRef = useRef(new Map<string, ECharts>());
+
+  // ── Reference lines ───────────────────────────────────────────────────────
+  // Resolved per slot (null when unset / unresolvable) so bands can refer to
+  // lines by their slot number.
+  const referenceLineSlots: (ReferenceLine | null)[] = Array.from({ length: REFERENCE_LINE_COUNT }, (_, i) => {
+    const key = `refLine${i + 1}`;
+    const kindValue: unknown = config[`${key}Type`];
+    const kind = isReferenceLineKind(kindValue) ? kindValue : 'None';
+    if (kind === 'None') return null;
+    const rawValue = parseFloat((config[`${key}Value`] as string | undefined) ?? '');
+    const value = (() => {
+      if (kind === 'Constant') return rawValue;
+      if (kind === 'Column') {
+        const col = sigmaData[config[`${key}Column`] as string];
+        return Array.isArray(col) && col.length > 0 ? Number(col[0]) : NaN;
+      }
+      // Statistics over totals are meaningless once every bar is 100%. The
+      // Top-N "Other" bar lumps many categories together, so it's left out.
+      if (normalize) return NaN;
+      const totals = chartData.filter((row) => !row.otherCategories).map((row) => row.total);
+      return computeStatistic(kind, totals, isNaN(rawValue) ? 50 : rawValue);
+    })();
+    if (isNaN(value)) return null;
+    const style = (config[`${key}Style`] as string | undefined) ?? 'Dashed';
+    return {
+      value,
+      name: kind === 'Percentile' ? `P${isNaN(rawValue) ? 50 : rawValue}` : kind,
+      label: (config[`${key}Label`] as string | undefined) ?? '',
+      labelPosition: ((config[`${key}LabelPosition`] as string | undefined) ?? 'Top') as ReferenceLabelPosition,
+      color: (config[`${key}Color`] as string | undefined) ?? theme.muted,
+      dash: style.toLowerCase() as ReferenceLine['dash'],
+      width: parseInt((config[`${key}Width`] as string | undefined) ?? '1', 10),
+    };
+  });
+  const referenceLines = referenceLineSlots.filter((line): line is ReferenceLine => line !== null);
+  const referenceBands: ReferenceBand[] = (() => {
+    const match = /Between Lines (\d+) & (\d+)/.exec((config.referenceBand as string | undefined) ?? '');
+    if (!match) return [];
+    const a = referenceLineSlots[parseInt(match[1], 10) - 1];
+    const b = referenceLineSlots[parseInt(match[2], 10) - 1];
+    if (!a || !b) return [];
+    return [{
+      from: Math.min(a.value, b.value),
+      to: Math.max(a.value, b.value),
+      color: (config.referenceBandColor as string | undefined) ?? '#93C5FD',
+    }];
+  })();
+
+  // Panels share one value scale: the widest reach of any panel's bars
+  // (stacks in stacked layouts, single bars when grouped), targets,
+  // comparison values and lines.
+  const facetValueRange = (() => {
+    if (facets.length === 0) return undefined;
+    const grouped = seriesLayout === 'Grouped';
+    const reach = facets.flatMap(({ rows }) => rows.flatMap((row) => {
+      // Series hidden from the legend aren't drawn, so they don't stretch the axis.
+      const values = row.values.map((v, si) => (hiddenSet.has(seriesNames[si]) ? 0 : v));
+      const bars = grouped
+        ? values
+        : [
+            values.reduce((s, v) => (v > 0 ? s + v : s), 0),
+            values.reduce((s, v) => (v < 0 ? s + v : s), 0),
+          ];
+      return [...bars, ...[row.target, row.comparison].filter((v): v is number => v !== undefined)];
+    }));
+    if (showTargetLine && !perRowTargets && !isNaN(targetLineValue)) reach.push(targetLineValue);
+    referenceLines.forEach((line) => reach.push(line.value));
+    return {
+      min: reach.reduce((m, v) => Math.min(m, v), 0),
+      max: reach.reduce((m, v) => Math.max(m, v), 0),
+    };
+  })();
+
+  // ── Selection ─────────────────────────────────────────────────────────────
+  // The workbook owns the selection: clicks and brushes are published through
+  // setInteraction (cross-filter) and / or the multi-select list control, and
+  // the current state is read back to dim the bars that aren't selected.
+  // Multi-select with neither configured keeps the selection locally.
+  const multiSelect = config.selectionMode === 'Multi-select';
+  const [interactionState, setInteraction] = useInteraction(config.interaction, config.source);
+  const [selectionVariable, setSelectionVariable] = useVariable(config.selectionVariable);
+  const [localSelection, setLocalSelection] = useState<string[]>([]);
+  const localSelectionOnly = multiSelect && !config.interaction && !config.selectionVariable;
+  const selectedCategories: string[] = (() => {
+    const present = (v: unknown) => v !== undefined && v !== null;
+    if (config.interaction && catId) {
+      return ((interactionState as WorkbookSelection[] | undefined) ?? [])
+        .map((sel) => sel[catId]?.val)
+        .filter(present)
+        .map((v) => String(v));
+    }
+    if (multiSelect && config.selectionVariable) {
+      const value = selectionVariable?.defaultValue?.value as unknown;
+      return Array.isArray(value) ? value.filter(present).map((v) => String(v)) : [];
+    }
+    return localSelectionOnly ? localSelection : [];
+  })();
+
+  const publishSelection = useCallback(
+    (next: string[]) => {
+      if (config.interaction && catId) {
+        // Publish the original cell values so number / date categories still match.
+        const rawCategories = (sigmaData[catId] ?? []) as unknown[];
+        const columnType = columnInfo?.[catId]?.columnType ?? 'text';
+        try {
+          setInteraction(next.map((c): WorkbookSelection => ({
+            [catId]: { type: columnType, val: rawCategories.find((v) => String(v ?? '') === c) ?? c },
+          })));
+        } catch (err) {
+          console.warn('[plugin] setInteraction failed:', err);
+        }
+      }
+      if (multiSelect && config.selectionVariable) {
+        try { setSelectionVariable(...next); }
+        catch (err) { console.warn('[plugin] setVariable failed:', err); }
+      }
+      if (localSelectionOnly) setLocalSelection(next);
+    },
+    [config.interaction, config.selectionVariable, multiSelect, localSelectionOnly, catId, sigmaData, columnInfo, setInteraction, setSelectionVariable],
+  );
+
+  // Plain click / brush replaces the selection (a plain click on a bar that is
+  // already the whole selection clears it); shift / ctrl toggles bars in or out.
+  const updateSelection = useCallback(
+    (categories: string[], modifiers: BarClickModifiers, isBrush = false) => {
+      const current = new Set(selectedCategories);
+      const alreadySelected = categories.every((c) => current.has(c));
+      if (modifiers.shiftKey || modifiers.ctrlKey) {
+        categories.forEach((c) => (alreadySelected && !isBrush ? current.delete(c) : current.add(c)));
+        publishSelection(Array.from(current));
+      } else {
+        const isWholeSelection = alreadySelected && current.size === categories.length;
+        publishSelection(isWholeSelection && !isBrush ? [] : categories);
+      }
+    },
+    // selectedCategories is rebuilt every render from interactionState,
+    // selectionVariable and localSelection, so those stand in for it;
+    // publishSelection is the only other thing read.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [interactionState, selectionVariable, localSelection, publishSelection],
+  );
+
+  const onBrushSelect = useCallback(
+    (rows: BarRow[], modifiers: BarClickModifiers) => {
+      updateSelection(rows.flatMap((row) => row.otherCategories ?? [row.category]), modifiers, true);
+    },
+    [updateSelection],
+  );
+
+  const onEmptyClick = useCallback(() => {
+    if (multiSelect) publishSelection([]);
+  }, [multiSelect, publishSelection]);
+
+  // With a drill hierarchy, click variable N follows drill level N: levels on
+  // the path get their category, the clicked level gets the clicked
+  // categories and deeper levels are cleared. Without one, every click
+  // variable receives the clicked categories.
+  const clickVariableIds = [config.clickVariable, config.clickVariable2, config.clickVariable3] as (string | undefined)[];
+  const writeClickVariables = useCallback(
+    (path: string[], clicked: string[] | null) => {
+      clickVariableIds.forEach((id, level) => {
+        if (!id) return;
+        if (hierarchy.length <= 1) {
+          if (clicked) client.config.setVariable(id, ...clicked);
+          return;
+        }
+        const values = level < path.length ? [path[level]] : level === path.length && clicked ? clicked : [];
+        client.config.setVariable(id, ...values);
+      });
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [config.clickVariable, config.clickVariable2, config.clickVariable3, hierarchy.length],
+  );
+
+  const onDrillNavigate = useCallback(
+    (depth: number) => {
+      const path = drillPath.slice(0, depth);
+      setDrillPath(path);
+      try { writeClickVariables(path, null); }
+      catch (err) { console.warn('[plugin] setVariable failed:', err); }
+    },
+    [drillPath, writeClickVariables],
+  );
 
   const onBarClick = useCallback(
-    (category: string) => {
+    ({ row, seriesIndex, seriesName }: BarHit, modifiers: BarClickModifiers, facet?: string) => {
+      // The "Other" bar writes every category it collapsed (for list controls).
+      const categories = row.otherCategories ?? [row.category];
+      const path = drillPath.slice(0, drillDepth);
+      // Clicking a bar above the last level drills into it instead of
+      // selecting it. The "Other" bar holds several categories, so it can't.
+      const drillInto = canDrill && !row.otherCategories && !modifiers.shiftKey && !modifiers.ctrlKey;
+      if (drillInto) {
+        setDrillPath([...path, row.category]);
+      } else {
+        updateSelection(categories, modifiers);
+      }
       try {
-        if (config.clickVariable) {
-          client.config.setVariable(config.clickVariable as string, category);
-        }
-        if (config.clickVariable2) {
-          client.config.setVariable(config.clickVariable2 as string, category);
+        writeClickVariables(path, categories);
+        if (facet !== undefined && config.facetVariable) {
+          client.config.setVariable(config.facetVariable as string, facet);
         }
-        if (config.clickVariable3) {
-          client.config.setVariable(config.clickVariable3 as string, category);
+        // Segment variables are only written when the click landed on a segment.
+        if (seriesIndex !== null) {
+          if (config.clickSeriesVariable) {
+            client.config.setVariable(config.clickSeriesVariable as string, seriesName);
+          }
+          if (config.clickValueVariable) {
+            client.config.setVariable(config.clickValueVariable as string, row.values[seriesIndex]);
+          }
         }
       } catch (err) {
         console.warn('[plugin] setVariable failed:', err);
@@ -157,67 +797,102 @@ function App() {
     // triggerOnClick intentionally excluded — we read it via ref to keep this
     // callback stable and prevent unnecessary ZRender re-registrations.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [config.clickVariable, config.clickVariable2, config.clickVariable3, config.onClickAction],
+    [config.clickSeriesVariable, config.clickValueVariable, config.facetVariable, config.onClickAction, drillPath, drillDepth, canDrill, updateSelection, writeClickVariables],
   );
 
-  // ── Data transform ────────────────────────────────────────────────────────
-  const catId = config.categoryColumn as string | undefined;
-  const valueIds = (config.valueColumns as string[] | string | undefined);
-  const valueIdArray: string[] = Array.isArray(valueIds)
-    ? valueIds
-    : valueIds
-    ? [valueIds]
-    : [];
+  // Painted behind exported images when the workbook background shows through.
+  const exportBackground = background ?? (theme.dark ? '#0f172a' : '#FFFFFF');
+  const comparisonName = comparisonColId ? (columnInfo?.[comparisonColId]?.name as string | undefined) ?? 'Comparison' : '';
 
-  const seriesNames: string[] = valueIdArray.map(
-    (id) => (columnInfo?.[id]?.name as string | undefined) ?? id,
-  );
+  // HTML chrome around the chart inherits the page font unless one is picked.
+  const cssFontFamily = fontFamily === 'Default' || fontFamily === 'Workbook Theme' ? undefined : fontFamily;
 
-  const chartData: BarRow[] = (() => {
-    if (!sigmaData || !columnInfo || !catId || valueIdArray.length === 0) return [];
-    const categories = sigmaData[catId] as unknown[] | undefined;
-    if (!categories || !Array.isArray(categories)) return [];
-
-    const aggregated = new Map<string, BarRow>();
-    categories.forEach((cat, i) => {
-      const category = String(cat ?? '');
-      if (aggregated.has(category)) return;
-      const values = valueIdArray.map((id) => Number(sigmaData[id]?.[i] ?? 0));
-      const total = values.reduce((s, v) => s + v, 0);
-      aggregated.set(category, { category, values, total });
-    });
-    return Array.from(aggregated.values());
-  })();
+  // Shown while drilled in — also over the empty state, so a filter that
+  // empties the current level doesn't strand the user there.
+  const breadcrumbs = drillDepth > 0 && (
+    <DrillBreadcrumbs
+      rootLabel={`All ${(columnInfo?.[hierarchy[0]]?.name as string | undefined) ?? ''}`.trim()}
+      path={drillPath.slice(0, drillDepth)}
+      onNavigate={onDrillNavigate}
+      fontFamily={cssFontFamily}
+      fontSize={fontSize}
+      theme={theme}
+    />
+  );
 
   if (chartData.length === 0) {
     return (
-      <div
-        style={{
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          height: '100%',
-          color: '#94a3b8',
-          fontSize: 14,
-        }}
-      >
-        Configure the data source and columns in the editor panel.
+      <div style={{ display: 'flex', flexDirection: 'column', height: '100%', background: customBackground }}>
+        {breadcrumbs}
+        <div
+          style={{
+            display: 'flex',
+            flex: 1,
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: theme.subtle,
+            fontSize: 14,
+          }}
+        >
+          {dataLoading
+            ? 'Loading data…'
+            : drillDepth > 0
+            ? 'No rows at this drill level.'
+            : 'Configure the data source and columns in the editor panel.'}
+        </div>
       </div>
     );
   }
 
-  return (
+  // Exports every panel: CSV rows led by their facet value, images laid out
+  // as the grid is on screen.
+  const exportFacets = (format: ExportFormat) => {
+    if (format === 'CSV') {
+      exportCsv(facets.map(({ value, rows }) => ({ facet: value, rows })), seriesNames, comparisonName, title, facetName);
+      return;
+    }
+    const charts = facets.flatMap(({ value }) => {
+      const chart = facetChartsRef.current.get(value);
+      return chart && !chart.isDisposed() ? [chart] : [];
+    });
+    exportImage(charts, format === 'SVG' ? 'svg' : 'png', parseInt(format.slice(4), 10) || 1, {
+      title,
+      titleStyle: { ...fontStyleFor(fontFamily), fontSize: fontSize + 3, fontWeight: 600, color: theme.strong },
+      background: exportBackground,
+    }).catch((err) => console.warn('[plugin] export failed:', err));
+  };
+
+  // Faceted panels reuse the same chart with their own rows and title, no
+  // legend, export menu, data table or live region of their own, and report
+  // their facet value on click.
+  const renderChart = (rows: BarRow[], panelTitle: string, facet?: string, panel?: FacetPanel) => (
     <RoundedBarChart
-      data={chartData}
+      data={rows}
       seriesNames={seriesNames}
       colors={userColors}
-      title={showTitle ? title : ''}
+      theme={theme}
+      background={exportBackground}
+      exportFormats={exportFormats}
+      exportTitle={facet === undefined ? title : `${title ? `${title} – ` : ''}${facet}`}
+      title={panelTitle}
+      orientation={orientation}
       cornerRadius={cornerRadius}
       barHeight={barHeight}
+      rowGap={rowGap}
+      scrollLongLists={scrollLongLists}
       chartPadding={chartPadding}
       labelStyle={labelStyle}
-      showLegend={showLegend}
+      barLabelTemplate={barLabelTemplate}
+      segmentLabels={segmentLabels}
+      segmentLabelTemplate={segmentLabelTemplate}
+      tooltipFieldNames={tooltipFieldNames}
+      comparisonName={comparisonName}
+      comparisonPlacement={comparisonPlacement}
+      goodDirection={goodDirection}
+      showLegend={showLegend && facet === undefined}
       legendPosition={legendPosition}
+      hiddenSeries={hiddenSeries}
+      onToggleSeries={toggleSeries}
       showXAxis={showXAxis}
       showYAxis={showYAxis}
       showPadding={showPadding}
@@ -226,15 +901,106 @@ function App() {
       interactable={interactable}
       showHoverTooltip={showHoverTooltip}
       highlightBarOnHover={highlightBarOnHover}
+      seriesLayout={seriesLayout}
       midBarCurves={midBarCurves}
+      groupBarGap={groupBarGap}
+      groupCategoryGap={groupCategoryGap}
+      normalize={normalize}
+      aggregation={aggregation}
+      valueRange={facetValueRange}
+      centerCategoryAxis={centerCategoryAxis}
+      seriesFormatters={seriesFormatters}
+      totalFormatter={totalFormatter}
       showTargetLine={showTargetLine}
       targetLineValue={targetLineValue}
       targetLineColor={targetLineColor}
       targetLineThickness={targetLineThickness}
       targetLineHeight={targetLineHeight}
-      onBarClick={onBarClick}
+      targetMode={targetMode}
+      referenceLines={referenceLines}
+      referenceBands={referenceBands}
+      highlightAboveTarget={highlightAboveTarget}
+      aboveTargetColor={aboveTargetColor}
+      colorRules={colorRules}
+      selectedCategories={selectedCategories}
+      brushSelect={multiSelect}
+      onBarClick={facet === undefined ? onBarClick : (hit, modifiers) => onBarClick(hit, modifiers, facet)}
+      onBrushSelect={onBrushSelect}
+      onEmptyClick={onEmptyClick}
+      panel={facet === undefined || !panel ? undefined : {
+        ...panel,
+        onChartInstance: (chart) => {
+          if (chart) facetChartsRef.current.set(facet, chart);
+          else facetChartsRef.current.delete(facet);
+        },
+      }}
+    />
+  );
+
+  const legendOnTop = legendPosition.startsWith('Top');
+  const facetLegend = facets.length > 0 && showLegend && (
+    <SeriesLegend
+      seriesNames={seriesNames}
+      colors={userColors}
+      hiddenSeries={hiddenSeries}
+      onToggle={toggleSeries}
+      fontFamily={cssFontFamily}
+      fontSize={fontSize}
+      theme={theme}
     />
   );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%', background: customBackground }}>
+      {breadcrumbs}
+      {facets.length > 0 && showTitle && title && (
+        <div style={{ flexShrink: 0, padding: '4px 8px', fontFamily: cssFontFamily, fontSize: fontSize + 3, fontWeight: 600, color: theme.strong }}>
+          {title}
+        </div>
+      )}
+      {legendOnTop && facetLegend}
+      <div style={{ position: 'relative', flex: 1, minHeight: 0 }}>
+        {facets.length > 0 ? (
+          <>
+            <FacetGrid
+              facets={facets.map((f) => f.value)}
+              columns={facetColumnCount}
+              renderPanel={(facet, i, panel) => renderChart(facets[i].rows, facet, facet, panel)}
+            />
+            <ExportMenu formats={exportFormats} onExport={exportFacets} theme={theme} />
+            <ChartDataTable
+              caption={title}
+              groups={facets.map(({ value, rows }) => ({ facet: value, rows }))}
+              facetName={facetName}
+              seriesNames={seriesNames}
+              hiddenSeries={hiddenSeries}
+              comparisonName={comparisonName}
+              seriesFormatters={seriesFormatters}
+              totalFormatter={totalFormatter}
+            />
+          </>
+        ) : (
+          renderChart(chartData, showTitle ? title : '')
+        )}
+      </div>
+      {!legendOnTop && facetLegend}
+      {(truncated || dataLoading) && (
+        <div
+          role="status"
+          style={{
+            flexShrink: 0,
+            padding: '4px 8px',
+            fontSize: 11,
+            color: truncated ? theme.warning : theme.subtle,
+          }}
+        >
+          {dataLoading
+            ? 'Loading more rows…'
+            : `Data truncated at ${rowLimit.toLocaleString()} rows — raise "Max Rows to Load" to include more.`}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default App;
@@ -0,0 +1,57 @@
+import type { BarRow, RowGroup } from '../App';
+import type { NumberFormatter } from '../utils/format';
+import { VISUALLY_HIDDEN } from '../utils/visuallyHidden';
+
+interface ChartDataTableProps {
+  caption: string;
+  groups: RowGroup[];
+  // Set for small multiples: one table for every panel, led by a facet column.
+  facetName?: string;
+  seriesNames: string[];
+  // Series toggled off from the legend; left out like they are in the chart.
+  hiddenSeries: string[];
+  comparisonName: string;
+  seriesFormatters: NumberFormatter[];
+  totalFormatter: NumberFormatter;
+}
+
+// The chart's bars as a table, hidden from view but read by screen readers
+// (the canvas itself carries no text). One row per bar, in drawn order.
+export default function ChartDataTable({ caption, groups, facetName, seriesNames, hiddenSeries, comparisonName, seriesFormatters, totalFormatter }: ChartDataTableProps) {
+  const rows = groups.flatMap((group) => group.rows);
+  const visible = seriesNames.map((name, si) => ({ name, si })).filter(({ name }) => !hiddenSeries.includes(name));
+  const hasTarget = rows.some((row) => row.target !== undefined);
+  const hasComparison = rows.some((row) => row.comparison !== undefined);
+  const formatterFor = (si: number) => seriesFormatters[si] ?? totalFormatter;
+  // Totals over the shown series only, as the chart draws them.
+  const totalOf = (row: BarRow) => visible.reduce((sum, { si }) => sum + (row.values[si] ?? 0), 0);
+
+  return (
+    <table style={VISUALLY_HIDDEN}>
+      <caption>{caption || 'Chart data'}</caption>
+      <thead>
+        <tr>
+          {facetName !== undefined && <th scope="col">{facetName || 'Facet'}</th>}
+          <th scope="col">Category</th>
+          {visible.map(({ name }) => <th key={name} scope="col">{name}</th>)}
+          {visible.length > 1 && <th scope="col">Total</th>}
+          {hasTarget && <th scope="col">Target</th>}
+          {hasComparison && <th scope="col">{comparisonName || 'Comparison'}</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {groups.flatMap((group, gi) => group.rows.map((row, ri) => (
+          // Index keys: a real category may share the "Other" bar's label.
+          <tr key={`${gi}-${ri}`}>
+            {facetName !== undefined && <td>{group.facet}</td>}
+            <th scope="row">{row.category}</th>
+            {visible.map(({ name, si }) => <td key={name}>{formatterFor(si)(row.values[si] ?? 0)}</td>)}
+            {visible.length > 1 && <td>{totalFormatter(totalOf(row))}</td>}
+            {hasTarget && <td>{row.target === undefined ? '' : totalFormatter(row.target)}</td>}
+            {hasComparison && <td>{row.comparison === undefined ? '' : totalFormatter(row.comparison)}</td>}
+          </tr>
+        )))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,61 @@
+import type { ChartTheme } from '../utils/theme';
+
+interface DrillBreadcrumbsProps {
+  // Label for the top level, e.g. the first hierarchy column's name.
+  rootLabel: string;
+  // Category drilled into at each level, outermost first.
+  path: string[];
+  // Steps back up so that only the first `depth` entries of the path remain.
+  onNavigate: (depth: number) => void;
+  fontFamily?: string;
+  fontSize: number;
+  theme: ChartTheme;
+}
+
+// Breadcrumb bar shown above the chart while drilled into a hierarchy. Every
+// crumb except the current level is a button that steps back up to it.
+export default function DrillBreadcrumbs({ rootLabel, path, onNavigate, fontFamily, fontSize, theme }: DrillBreadcrumbsProps) {
+  const crumbs = [rootLabel, ...path];
+  return (
+    <nav
+      aria-label="Drill path"
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 4,
+        flexShrink: 0,
+        padding: '4px 8px',
+        fontFamily,
+        fontSize,
+        color: theme.label,
+      }}
+    >
+      {crumbs.map((crumb, depth) => {
+        const current = depth === crumbs.length - 1;
+        return (
+          <span key={depth} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            {depth > 0 && <span aria-hidden style={{ color: theme.subtle }}>›</span>}
+            {current ? (
+              <span aria-current="page" style={{ fontWeight: 600, color: theme.strong }}>{crumb}</span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => onNavigate(depth)}
+                style={{
+                  border: 'none',
+                  background: 'none',
+                  font: 'inherit',
+                  color: theme.link,
+                  cursor: 'pointer',
+                }}
+              >
+                {crumb}
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ExportFormat } from '../utils/exportChart';
+import type { ChartTheme } from '../utils/theme';
+
+interface ExportMenuProps {
+  formats: ExportFormat[];
+  onExport: (format: ExportFormat) => void;
+  theme: ChartTheme;
+}
+
+// Download button pinned to the chart's top-right corner; opens a list of
+// the enabled export formats. Closes on selection or an outside click.
+export default function ExportMenu({ formats, onExport, theme }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  if (formats.length === 0) return null;
+
+  const surface = theme.tooltip?.backgroundColor ?? '#FFFFFF';
+  const border = theme.tooltip?.borderColor ?? theme.axisLine;
+
+  return (
+    <div ref={ref} style={{ position: 'absolute', top: 4, right: 4, zIndex: 10, fontSize: 12 }}>
+      <button
+        type="button"
+        aria-label="Export"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        onClick={() => setOpen((v) => !v)}
+        style={{
+          width: 24,
+          height: 24,
+          border: `1px solid ${border}`,
+          borderRadius: 6,
+          background: surface,
+          color: theme.muted,
+          cursor: 'pointer',
+          lineHeight: 1,
+        }}
+      >
+        ⤓
+      </button>
+      {open && (
+        <div
+          role="menu"
+          style={{
+            position: 'absolute',
+            top: 28,
+            right: 0,
+            minWidth: 96,
+            padding: 4,
+            border: `1px solid ${border}`,
+            borderRadius: 6,
+            background: surface,
+            boxShadow: '0 4px 12px rgba(15, 23, 42, 0.15)',
+          }}
+        >
+          {formats.map((format) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={() => {
+                setOpen(false);
+                onExport(format);
+              }}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '4px 8px',
+                border: 'none',
+                borderRadius: 4,
+                background: 'none',
+                color: theme.label,
+                font: 'inherit',
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
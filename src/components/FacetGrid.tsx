@@ -0,0 +1,77 @@
+import { useRef, useState } from 'react';
+import type { KeyboardEvent, ReactNode } from 'react';
+import useElementSize from '../hooks/useElementSize';
+import { VISUALLY_HIDDEN } from '../utils/visuallyHidden';
+
+// Panels narrower or shorter than this wrap onto more rows / scroll instead.
+const MIN_PANEL_WIDTH = 240;
+const MIN_PANEL_HEIGHT = 160;
+const GAP = 8;
+
+// What the grid hands each panel: whether it's the grid's tab stop, and where
+// to send what the panel would announce.
+export interface FacetPanel {
+  tabStop: boolean;
+  onAnnounce: (text: string) => void;
+}
+
+interface FacetGridProps {
+  facets: string[];
+  // Requested column count; 0 picks as many as fit at MIN_PANEL_WIDTH.
+  columns: number;
+  renderPanel: (facet: string, index: number, panel: FacetPanel) => ReactNode;
+}
+
+// Small-multiples layout: one panel per facet value, wrapped into as many
+// columns as requested (never more than fit the frame). Panels share the
+// frame's height evenly down to MIN_PANEL_HEIGHT, then the grid scrolls.
+// The grid is a single tab stop: the last panel focused, with Page Up /
+// Page Down moving focus between panels. It owns the one live region the
+// panels announce into, so announcing re-renders only the grid.
+export default function FacetGrid({ facets, columns, renderPanel }: FacetGridProps) {
+  const [ref, size] = useElementSize<HTMLDivElement>();
+  const panelRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [active, setActive] = useState(0);
+  const [announcement, setAnnouncement] = useState('');
+  const tabStop = Math.min(active, facets.length - 1);
+  const fit = Math.max(1, Math.floor((size.width + GAP) / (MIN_PANEL_WIDTH + GAP)));
+  const columnCount = Math.max(1, Math.min(facets.length, columns > 0 ? Math.min(columns, fit) : fit));
+  const rowCount = Math.ceil(facets.length / columnCount);
+  const panelHeight = Math.max(MIN_PANEL_HEIGHT, (size.height - GAP * (rowCount - 1)) / rowCount);
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>, index: number) => {
+    if (e.key !== 'PageDown' && e.key !== 'PageUp') return;
+    const next = index + (e.key === 'PageDown' ? 1 : -1);
+    if (next < 0 || next >= facets.length) return;
+    e.preventDefault();
+    panelRefs.current[next]?.querySelector<HTMLElement>('[tabindex]')?.focus();
+  };
+
+  return (
+    <div ref={ref} style={{ width: '100%', height: '100%', overflowY: 'auto' }}>
+      {size.width > 0 && (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`,
+            gridAutoRows: panelHeight,
+            gap: GAP,
+          }}
+        >
+          {facets.map((facet, i) => (
+            <div
+              key={facet}
+              ref={(el) => { panelRefs.current[i] = el; }}
+              onFocus={() => setActive(i)}
+              onKeyDown={(e) => onKeyDown(e, i)}
+              style={{ minWidth: 0, minHeight: 0 }}
+            >
+              {renderPanel(facet, i, { tabStop: i === tabStop, onAnnounce: setAnnouncement })}
+            </div>
+          ))}
+        </div>
+      )}
+      <div aria-live="polite" style={VISUALLY_HIDDEN}>{announcement}</div>
+    </div>
+  );
+}
@@ -1,20 +1,179 @@
-import { useMemo, useEffect, useRef, useCallback } from 'react';
+import { useMemo, useEffect, useRef, useCallback, useState } from 'react';
+import type { FocusEvent, KeyboardEvent } from 'react';
 import ReactECharts from 'echarts-for-react';
-import type { EChartsOption, MarkLineComponentOption } from 'echarts';
+import { graphic } from 'echarts';
+import type { ECharts, EChartsOption, MarkAreaComponentOption, MarkLineComponentOption } from 'echarts';
 import type { BarRow } from '../App';
+import type { Aggregation } from '../utils/aggregate';
+import { escapeHtml, richText, type NumberFormatter } from '../utils/format';
+import { mixColors } from '../utils/palettes';
+import { readableTextColor, type ChartTheme } from '../utils/theme';
+import { renderLabelTemplate } from '../utils/labelTemplate';
+import { ruleColors, type ColorRule } from '../utils/colorRules';
+import { CHANGE_COLORS, computeChange, formatChange, isChangeLabelStyle, type GoodDirection } from '../utils/comparison';
+import type { ReferenceBand, ReferenceLabelPosition, ReferenceLine } from '../utils/referenceLines';
+import { fontStyleFor, measureText } from '../utils/measureText';
+import useElementSize from '../hooks/useElementSize';
+import ExportMenu from './ExportMenu';
+import ChartDataTable from './ChartDataTable';
+import { VISUALLY_HIDDEN } from '../utils/visuallyHidden';
+import { exportCsv, exportImage, type ExportFormat } from '../utils/exportChart';
+
+// Modifier keys held during a bar click or brush (shift / ctrl toggle bars
+// in and out of the selection instead of replacing it).
+export interface BarClickModifiers {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+}
+
+// Set when the chart is one panel of a small-multiples grid. The grid owns
+// the export menu, data table and live region, so the panel renders none of
+// them: it hands over its ECharts instance and what it would announce.
+export interface ChartPanel {
+  // The grid keeps a single tab stop; the other panels are focused from it.
+  tabStop: boolean;
+  onChartInstance: (chart: ECharts | null) => void;
+  onAnnounce: (text: string) => void;
+}
+
+// ZRender mouse event — only the fields we read.
+interface ZrMouseEvent {
+  offsetX: number;
+  offsetY: number;
+  event?: MouseEvent;
+}
+
+function modifiersOf(e: ZrMouseEvent): BarClickModifiers {
+  return {
+    shiftKey: e.event?.shiftKey ?? false,
+    // Treat ⌘ as ctrl so the same gesture works on macOS.
+    ctrlKey: (e.event?.ctrlKey || e.event?.metaKey) ?? false,
+  };
+}
+
+// Pixels the pointer must travel before a press becomes a brush, not a click.
+const BRUSH_THRESHOLD = 4;
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// Pixel bounds of the plotting grid. Both dimensions carry a hidden 0–1
+// cross axis at index 1 that spans the grid exactly, so its ends convert
+// straight to the grid's edges.
+function gridRect(inst: ECharts): Rect {
+  const [x0, x1] = [0, 1].map((v) => inst.convertToPixel({ xAxisIndex: 1 }, v));
+  const [y0, y1] = [0, 1].map((v) => inst.convertToPixel({ yAxisIndex: 1 }, v));
+  return { x: Math.min(x0, x1), y: Math.min(y0, y1), width: Math.abs(x1 - x0), height: Math.abs(y1 - y0) };
+}
+
+// One bar column across a category band: its near edge's offset from the
+// band centre, and its thickness.
+interface BarSlot {
+  offset: number;
+  width: number;
+}
+
+// Where each bar column sits across a category band of `bandWidth` px,
+// following ECharts' bar layout for the settings this chart uses: a column
+// has a fixed width, or a max width it keeps unless the band is too narrow
+// for every column at that width. `gap` is a fraction of a bar's width,
+// `categoryGap` a fraction of the band.
+function barSlots(bandWidth: number, columns: { width?: number; maxWidth?: number }[], gap: number, categoryGap: number): BarSlot[] {
+  const autoWidth = (remained: number, count: number) =>
+    Math.max(0, (remained - categoryGap * bandWidth) / (count + (count - 1) * gap));
+  let remained = bandWidth;
+  let autoCount = columns.length;
+  const fitted = autoWidth(remained, autoCount);
+  const widths = columns.map(({ width, maxWidth }) => {
+    const fixed = width ?? (maxWidth !== undefined && maxWidth < fitted ? Math.min(maxWidth, remained) : undefined);
+    if (fixed === undefined) return undefined;
+    remained -= fixed * (1 + gap);
+    autoCount--;
+    return fixed;
+  });
+  const rest = autoWidth(remained, autoCount);
+  const final = widths.map((w) => w ?? rest);
+  const sum = final.reduce((s, w) => s + w * (1 + gap), 0) - (final[final.length - 1] ?? 0) * gap;
+  let offset = -sum / 2;
+  return final.map((width) => {
+    const slot = { offset, width };
+    offset += width * (1 + gap);
+    return slot;
+  });
+}
+
+// Pixel rectangle of row `rowIdx` from `start` to `end` along the value axis
+// and within `slot` across its category band — one drawn segment, for the
+// keyboard focus ring. Always returns a positive size.
+function segmentRect(inst: ECharts, rowIdx: number, start: number, end: number, slot: BarSlot, vertical: boolean): Rect {
+  const across = inst.convertToPixel(vertical ? { xAxisIndex: 0 } : { yAxisIndex: 0 }, rowIdx) + slot.offset;
+  const [a, b] = [start, end].map((v) => inst.convertToPixel(vertical ? { yAxisIndex: 0 } : { xAxisIndex: 0 }, v));
+  return vertical
+    ? { x: across, y: Math.min(a, b), width: slot.width, height: Math.abs(b - a) }
+    : { x: Math.min(a, b), y: across, width: Math.abs(b - a), height: slot.width };
+}
+
+// Whether a row is in the selection. The "Other" bar counts as selected when
+// any category it holds is selected.
+function isSelected(row: BarRow, selected: Set<string>): boolean {
+  return selected.has(row.category) || (row.otherCategories ?? []).some((c) => selected.has(c));
+}
+
+// What a click landed on: always a row, plus the segment when the click fell
+// inside one (null when it hit the row's empty space beyond the bar).
+export interface BarHit {
+  row: BarRow;
+  seriesIndex: number | null;
+  seriesName: string | null;
+}
 
 interface RoundedBarChartProps {
   data: BarRow[];
   seriesNames: string[];
   colors: string[];
+  // Text, axis and tooltip colors for the workbook background.
+  theme: ChartTheme;
+  // Painted behind exported images (the view itself lets the workbook show through).
+  background: string;
+  // Formats offered by the export menu; empty hides it.
+  exportFormats: ExportFormat[];
+  // Title for exported images and file names, included even when the view hides it.
+  exportTitle: string;
   title: string;
+  // 'Vertical' draws columns: categories along x, values up the y axis.
+  orientation: string;
   cornerRadius: number;
   barHeight: number;
+  // Space between category bands, in px, when rows keep their natural height.
+  rowGap: number;
+  // Keep rows at barHeight + rowGap and scroll the category axis once they
+  // no longer fit, instead of squeezing them into the frame.
+  scrollLongLists: boolean;
   chartPadding: number;
   showPadding: boolean;
   labelStyle: string;
+  // Whole-bar label text when labelStyle is 'Template' (see labelTemplate.ts).
+  barLabelTemplate: string;
+  // Labels inside every segment, in a text color that contrasts with it;
+  // hidden where the segment is too small to hold them.
+  segmentLabels: boolean;
+  segmentLabelTemplate: string;
+  // Names of the extra tooltip fields, matching BarRow.tooltipValues.
+  tooltipFieldNames: string[];
+  // Column name of BarRow.comparison for the tooltip ('' when there is none).
+  comparisonName: string;
+  // Ghost bar for the comparison value: 'Behind' the main bar, 'Beside' it,
+  // or 'Hidden' (change still shown in labels and tooltip). midBarCurves
+  // stacks draw 'Beside' behind, and normalize draws no ghost at all; the
+  // editor label states both.
+  comparisonPlacement: string;
+  goodDirection: GoodDirection;
   showLegend: boolean;
   legendPosition: string;
+  // Series toggled off from the legend. `data` keeps their values (exports
+  // write them); everything drawn counts them as zero, the legend shows
+  // them greyed out and the tooltip leaves them out.
+  hiddenSeries: string[];
+  onToggleSeries: (name: string) => void;
   showXAxis: boolean;
   showYAxis: boolean;
   fontFamily: string;
@@ -22,31 +181,182 @@ interface RoundedBarChartProps {
   interactable: boolean;
   showHoverTooltip: boolean;
   highlightBarOnHover: boolean;
+  // 'Grouped' draws each series as its own bar side by side within the
+  // category band instead of stacking them.
+  seriesLayout: string;
   midBarCurves: boolean;
+  // Grouped layout gaps: between bars as a percent of a bar's thickness,
+  // between groups as a percent of the category band.
+  groupBarGap: number;
+  groupCategoryGap: number;
+  // Rescale every row to 100% (part-to-whole); the value axis reads in percent.
+  normalize: boolean;
+  aggregation: Aggregation;
+  // Fixed value-axis range, e.g. shared by every small-multiples panel.
+  valueRange?: { min: number; max: number };
+  // Diverging data: put the category axis on the zero baseline and make the
+  // value axis symmetric around it.
+  centerCategoryAxis: boolean;
+  seriesFormatters: NumberFormatter[];
+  totalFormatter: NumberFormatter;
   showTargetLine: boolean;
   targetLineValue: number;
   targetLineColor: string;
   targetLineThickness: number;
   targetLineHeight: number;
-  onBarClick: (category: string) => void;
+  // 'Per-row Target' draws a tick on each bar at BarRow.target instead of one line.
+  targetMode: string;
+  // Per-row targets only, and not in normalize mode.
+  highlightAboveTarget: boolean;
+  aboveTargetColor: string;
+  // Conditional formatting; a matching rule overrides every other color.
+  colorRules: ColorRule[];
+  referenceLines: ReferenceLine[];
+  referenceBands: ReferenceBand[];
+  // Categories currently selected in the workbook; others are dimmed.
+  selectedCategories: string[];
+  // Multi-select mode: a vertical drag across the grid selects a category range.
+  brushSelect: boolean;
+  onBarClick: (hit: BarHit, modifiers: BarClickModifiers) => void;
+  onBrushSelect: (rows: BarRow[], modifiers: BarClickModifiers) => void;
+  // Fired for clicks inside the grid that don't land on a bar (in brush mode,
+  // also for the empty space beyond a bar's end).
+  onEmptyClick: () => void;
+  panel?: ChartPanel;
 }
 
-function fmt(n: number): string {
-  return Math.round(n).toLocaleString();
+const DIMMED_OPACITY = 0.25;
+
+// ECharts legend icon width plus the gap before its text.
+const LEGEND_ICON_SPACE = 30;
+
+// Room kept beside the grid for the scroll slider.
+const SCROLLBAR_SPACE = 16;
+
+// Comparison ghost bars are drawn this translucent (dimmed rows fade further).
+const GHOST_OPACITY = 0.3;
+
+// Reference lines run bottom (start) to top (end) on the hidden 0–1 axis.
+const REFERENCE_LABEL_POSITION: Record<Exclude<ReferenceLabelPosition, 'Hidden'>, 'start' | 'middle' | 'end'> = {
+  Top: 'end',
+  Middle: 'middle',
+  Bottom: 'start',
+};
+
+// Positive and negative parts of a row, summed separately (diverging layout).
+function signedTotals(row: BarRow): { positive: number; negative: number } {
+  let positive = 0;
+  let negative = 0;
+  row.values.forEach((v) => {
+    if (v > 0) positive += v;
+    else if (v < 0) negative += v;
+  });
+  return { positive, negative };
 }
 
+// Finds the series whose segment spans `value` along the value axis. Both
+// render modes share the same geometry: in midBarCurves mode each series is a
+// bar from 0 to its cumulative sum drawn in front of the longer ones, so the
+// visible part of series i is the same (cum[i-1], cum[i]] span a stacked bar
+// has. Positive and negative segments stack away from zero independently.
+function hitSeries(row: BarRow, value: number): number | null {
+  const negativeSide = value < 0;
+  let cum = 0;
+  for (let i = 0; i < row.values.length; i++) {
+    const v = row.values[i] ?? 0;
+    if (v === 0 || (v < 0) !== negativeSide) continue;
+    cum += v;
+    if (Math.abs(value) <= Math.abs(cum)) return i;
+  }
+  return null;
+}
+
+// Cumulative length of series `idx`'s bar in midBarCurves mode: the running
+// sum of the same-signed values up to and including it.
+function cumulativeTo(row: BarRow, idx: number): number {
+  const negative = (row.values[idx] ?? 0) < 0;
+  return row.values
+    .slice(0, idx + 1)
+    .reduce((s, v) => ((v < 0) === negative ? s + v : s), 0);
+}
+
+// Corner radii [tl, tr, br, bl] for a stacked segment: only the outermost
+// segment on each side of zero gets its outer end rounded. The end at zero is
+// rounded too unless the row has segments on the other side to meet.
+function stackedRadius(row: BarRow, idx: number, r: number): number | number[] {
+  const v = row.values[idx] ?? 0;
+  if (v === 0) return 0;
+  const sameSide = row.values
+    .map((x, i) => ((x !== 0 && (x < 0) === (v < 0)) ? i : -1))
+    .filter((i) => i >= 0);
+  const otherSide = row.values.some((x) => x !== 0 && (x < 0) !== (v < 0));
+  const outer = idx === sameSide[sameSide.length - 1];
+  const innerRounded = idx === sameSide[0] && !otherSide;
+  const left = v > 0 ? innerRounded : outer;
+  const right = v > 0 ? outer : innerRounded;
+  if (left && right) return r;
+  return [left ? r : 0, right ? r : 0, right ? r : 0, left ? r : 0];
+}
+
+// Corner radii are worked out for horizontal bars ([tl, tr, br, bl] with the
+// value end on the right); a vertical bar's value end is its top.
+function rotateRadius(radius: number | number[], vertical: boolean): number | number[] {
+  if (!vertical || typeof radius === 'number') return radius;
+  return [radius[1], radius[2], radius[3], radius[0]];
+}
+
+// A row with the given series zeroed and its total recomputed: series hidden
+// from the legend drop out of the stacks, totals, labels and tooltip.
+function hideSeries(row: BarRow, hidden: boolean[]): BarRow {
+  if (!hidden.some(Boolean)) return row;
+  const values = row.values.map((v, si) => (hidden[si] ? 0 : v));
+  return { ...row, values, total: values.reduce((s, v) => s + v, 0) };
+}
+
+// Rescales a row so its segments' absolute values sum to 100. Used for the
+// geometry only — labels and tooltips keep reading the raw row.
+function normalizeRow(row: BarRow): BarRow {
+  const magnitude = row.values.reduce((s, v) => s + Math.abs(v), 0);
+  if (magnitude === 0) return row;
+  const values = row.values.map((v) => (v / magnitude) * 100);
+  return { ...row, values, total: values.reduce((s, v) => s + v, 0) };
+}
+
+function fmtPct(v: number): string {
+  return `${Math.round(v * 10) / 10}%`;
+}
+
+// Widest category label allowed once labels are rotated; longer ones truncate.
+const MAX_ROTATED_LABEL_WIDTH = 120;
+
 export default function RoundedBarChart({
-  data,
+  data: allRows,
   seriesNames,
   colors,
+  theme,
+  background,
+  exportFormats,
+  exportTitle,
   title,
+  orientation,
   cornerRadius,
   barHeight,
+  rowGap,
+  scrollLongLists,
   chartPadding,
   showPadding,
   labelStyle,
+  barLabelTemplate,
+  segmentLabels,
+  segmentLabelTemplate,
+  tooltipFieldNames,
+  comparisonName,
+  comparisonPlacement,
+  goodDirection,
   showLegend,
   legendPosition,
+  hiddenSeries,
+  onToggleSeries,
   showXAxis,
   showYAxis,
   fontFamily,
@@ -54,31 +364,113 @@ export default function RoundedBarChart({
   interactable,
   showHoverTooltip,
   highlightBarOnHover,
+  seriesLayout,
   midBarCurves,
+  groupBarGap,
+  groupCategoryGap,
+  normalize,
+  aggregation,
+  valueRange,
+  centerCategoryAxis,
+  seriesFormatters,
+  totalFormatter,
   showTargetLine,
   targetLineValue,
   targetLineColor,
   targetLineThickness,
   targetLineHeight,
+  targetMode,
+  highlightAboveTarget,
+  aboveTargetColor,
+  colorRules,
+  referenceLines,
+  referenceBands,
+  selectedCategories,
+  brushSelect,
   onBarClick,
+  onBrushSelect,
+  onEmptyClick,
+  panel,
 }: RoundedBarChartProps) {
   const chartRef = useRef<ReactECharts>(null);
+  const [containerRef, containerSize] = useElementSize<HTMLDivElement>();
+  const vertical = orientation === 'Vertical';
+  const grouped = seriesLayout === 'Grouped';
+  // Rows with the hidden series zeroed, which is what every label, tooltip and
+  // bar reads from here on.
+  const data = useMemo(
+    () => allRows.map((row) => hideSeries(row, seriesNames.map((name) => hiddenSeries.includes(name)))),
+    [allRows, seriesNames, hiddenSeries],
+  );
+  // Rows as drawn: percentages in normalize mode, otherwise the data itself.
+  const plotted = useMemo(() => (normalize ? data.map(normalizeRow) : data), [data, normalize]);
+  // Comparison ghost bars and where they go (see comparisonSeries).
+  const showGhost = data.some((row) => row.comparison !== undefined) && comparisonPlacement !== 'Hidden' && !normalize;
+  const ghostBeside = comparisonPlacement === 'Beside' && !(midBarCurves && !grouped);
+  const ghostBehind = showGhost && !grouped && !ghostBeside;
+  const ghostWidth = Math.max(4, Math.round(barHeight / 2));
 
   // ── Stable refs so the ZRender handler never holds stale closures ──────────
   // The handler is registered ONCE (or when the chart re-initialises) and reads
   // current values via refs, avoiding the deregister/reregister churn that can
   // leave brief windows with no active click listener.
   const dataRef = useRef(data);
+  const plottedRef = useRef(plotted);
+  const seriesNamesRef = useRef(seriesNames);
   const onBarClickRef = useRef(onBarClick);
   const interactableRef = useRef(interactable);
+  const verticalRef = useRef(vertical);
+  const groupedRef = useRef(grouped);
+  const brushSelectRef = useRef(brushSelect);
+  const onBrushSelectRef = useRef(onBrushSelect);
+  const onEmptyClickRef = useRef(onEmptyClick);
+  const hiddenSeriesRef = useRef(hiddenSeries);
+  const onToggleSeriesRef = useRef(onToggleSeries);
   useEffect(() => { dataRef.current = data; });
+  useEffect(() => { plottedRef.current = plotted; });
+  useEffect(() => { seriesNamesRef.current = seriesNames; });
   useEffect(() => { onBarClickRef.current = onBarClick; });
   useEffect(() => { interactableRef.current = interactable; });
+  useEffect(() => { verticalRef.current = vertical; });
+  useEffect(() => { groupedRef.current = grouped; });
+  useEffect(() => { brushSelectRef.current = brushSelect; });
+  useEffect(() => { onBrushSelectRef.current = onBrushSelect; });
+  useEffect(() => { onEmptyClickRef.current = onEmptyClick; });
+  useEffect(() => { hiddenSeriesRef.current = hiddenSeries; });
+  useEffect(() => { onToggleSeriesRef.current = onToggleSeries; });
+
+  // First row of the scroll window. Kept outside the option so rebuilding it
+  // (new selection, resize, …) doesn't jump back to the top.
+  const scrollStartRef = useRef(0);
+  // Highlights the selected bars; replaced every render (see below).
+  const applySelectionRef = useRef(() => {});
+  // Bumped on every scroll so the focus ring follows its bar.
+  const [zoomTick, setZoomTick] = useState(0);
+  const onEvents = useMemo(() => ({
+    datazoom: () => {
+      const zoom = (chartRef.current?.getEchartsInstance().getOption().dataZoom as { start?: number; startValue?: number }[] | undefined)?.[0];
+      if (!zoom) return;
+      scrollStartRef.current = typeof zoom.startValue === 'number'
+        ? zoom.startValue
+        : Math.round(((zoom.start ?? 0) / 100) * Math.max(0, dataRef.current.length - 1));
+      setZoomTick((t) => t + 1);
+    },
+    // Leaving a hovered bar clears every blur, the selection's included.
+    // ECharts does that after this handler runs, so re-apply on the next tick.
+    mouseout: () => {
+      setTimeout(() => applySelectionRef.current(), 0);
+    },
+    // ECharts has already toggled the series by the time this fires; the
+    // owner decides, and the next option sets legend.selected to match.
+    legendselectchanged: (e: { name: string }) => {
+      onToggleSeriesRef.current(e.name);
+    },
+  }), []);
 
   // Tracks the teardown function for the currently registered ZRender handler.
   const zrCleanupRef = useRef<(() => void) | null>(null);
 
-  // Registers the ZRender click handler on the current ECharts instance.
+  // Registers the ZRender click (and brush) handlers on the current ECharts instance.
   // Safe to call multiple times — always cleans up the previous handler first.
   const bindClickHandler = useCallback(() => {
     zrCleanupRef.current?.();
@@ -88,7 +480,102 @@ export default function RoundedBarChart({
     if (!instance) return;
 
     const zr = instance.getZr();
-    const handler = (e: { offsetX: number; offsetY: number }) => {
+
+    // Grid coordinates split into the category index and the value, whichever
+    // way round the chart is drawn.
+    const toCategoryValue = (pt: number[]) =>
+      verticalRef.current ? { cat: pt[0], value: pt[1] } : { cat: pt[1], value: pt[0] };
+    // Pixel position along the category axis — the direction a brush drags in.
+    const alongCategories = (e: ZrMouseEvent) => (verticalRef.current ? e.offsetX : e.offsetY);
+
+    // Converts a pixel position to a row index, clamped to the data range.
+    const rowIndexAt = (inst: ECharts, e: ZrMouseEvent): number | null => {
+      const pt = inst.convertFromPixel('grid', [e.offsetX, e.offsetY]);
+      if (!pt) return null;
+      const { cat } = toCategoryValue(pt);
+      return Math.min(dataRef.current.length - 1, Math.max(0, Math.round(cat)));
+    };
+
+    // ── Brush (multi-select mode) ────────────────────────────────────────
+    // A press inside the grid starts a pending brush; once the pointer moves
+    // past BRUSH_THRESHOLD a translucent band is drawn straight onto ZRender
+    // (no option rebuild per mouse move). Release selects every row it spans.
+    let brush: { startIdx: number; startPos: number; band: graphic.Rect | null } | null = null;
+    // The browser still fires a click after a drag; swallow that one.
+    let suppressClick = false;
+
+    const endBrush = () => {
+      if (brush?.band) zr.remove(brush.band);
+      brush = null;
+    };
+
+    const onMouseDown = (e: ZrMouseEvent) => {
+      if (!interactableRef.current || !brushSelectRef.current) return;
+      const inst = chartRef.current?.getEchartsInstance();
+      if (!inst || !inst.containPixel('grid', [e.offsetX, e.offsetY])) return;
+      const startIdx = rowIndexAt(inst, e);
+      if (startIdx === null) return;
+      brush = { startIdx, startPos: alongCategories(e), band: null };
+    };
+
+    const onMouseMove = (e: ZrMouseEvent) => {
+      if (!brush) return;
+      if (!brush.band && Math.abs(alongCategories(e) - brush.startPos) < BRUSH_THRESHOLD) return;
+      const inst = chartRef.current?.getEchartsInstance();
+      if (!inst) return;
+      const rect = gridRect(inst);
+      const { startPos } = brush;
+      const shape = verticalRef.current
+        ? (() => {
+            const x = Math.min(Math.max(e.offsetX, rect.x), rect.x + rect.width);
+            return { x: Math.min(startPos, x), y: rect.y, width: Math.abs(x - startPos), height: rect.height };
+          })()
+        : (() => {
+            const y = Math.min(Math.max(e.offsetY, rect.y), rect.y + rect.height);
+            return { x: rect.x, y: Math.min(startPos, y), width: rect.width, height: Math.abs(y - startPos) };
+          })();
+      if (!brush.band) {
+        brush.band = new graphic.Rect({
+          shape,
+          style: { fill: 'rgba(37, 99, 235, 0.12)', stroke: 'rgba(37, 99, 235, 0.6)', lineWidth: 1 },
+          silent: true,
+          z: 100,
+        });
+        zr.add(brush.band);
+      } else {
+        brush.band.setShape(shape);
+      }
+    };
+
+    const onMouseUp = (e: ZrMouseEvent) => {
+      if (!brush) return;
+      const { startIdx, band } = brush;
+      endBrush();
+      if (!band) return; // never moved far enough — let the click handler run
+      suppressClick = true;
+      const inst = chartRef.current?.getEchartsInstance();
+      const endIdx = inst ? rowIndexAt(inst, e) : null;
+      if (endIdx === null) return;
+      const rows = dataRef.current.slice(Math.min(startIdx, endIdx), Math.max(startIdx, endIdx) + 1);
+      onBrushSelectRef.current(rows, modifiersOf(e));
+    };
+
+    // ECharts reports the bar a click landed on to its own listeners, which
+    // it registered on ZRender before this handler, so that arrives first.
+    let clickedItem: { seriesIndex: number; dataIndex: number } | null = null;
+    const onItemClick = (params: { seriesIndex?: number; dataIndex?: number }) => {
+      clickedItem = params.seriesIndex === undefined || params.dataIndex === undefined
+        ? null
+        : { seriesIndex: params.seriesIndex, dataIndex: params.dataIndex };
+    };
+
+    const handler = (e: ZrMouseEvent) => {
+      const item = clickedItem;
+      clickedItem = null;
+      if (suppressClick) {
+        suppressClick = false;
+        return;
+      }
       if (!interactableRef.current) return;
       // Re-fetch instance inside handler — guards against stale reference
       const inst = chartRef.current?.getEchartsInstance();
@@ -96,15 +583,52 @@ export default function RoundedBarChart({
       if (!inst.containPixel('grid', [e.offsetX, e.offsetY])) return;
       const pt = inst.convertFromPixel('grid', [e.offsetX, e.offsetY]);
       if (!pt) return;
-      const yIdx = Math.round(pt[1]);
+      const { cat, value } = toCategoryValue(pt);
+      const yIdx = Math.round(cat);
       const d = dataRef.current;
-      if (yIdx >= 0 && yIdx < d.length) {
-        onBarClickRef.current(d[yIdx].category);
+      if (yIdx < 0 || yIdx >= d.length) {
+        onEmptyClickRef.current();
+        return;
+      }
+      // Hit-test against the drawn geometry (percentages when normalized).
+      // Grouped bars sit side by side, so the value alone can't tell them
+      // apart — take the bar ECharts reported instead (series are drawn in
+      // seriesNames order, ahead of the ghost and marker series).
+      const seriesIndex = groupedRef.current
+        ? item && item.dataIndex === yIdx && item.seriesIndex < seriesNamesRef.current.length
+          && !hiddenSeriesRef.current.includes(seriesNamesRef.current[item.seriesIndex])
+          ? item.seriesIndex
+          : null
+        : hitSeries(plottedRef.current[yIdx] ?? d[yIdx], value);
+      if (seriesIndex === null && brushSelectRef.current) {
+        onEmptyClickRef.current();
+        return;
       }
+      onBarClickRef.current(
+        {
+          row: d[yIdx],
+          seriesIndex,
+          seriesName: seriesIndex === null ? null : seriesNamesRef.current[seriesIndex] ?? null,
+        },
+        modifiersOf(e),
+      );
     };
 
+    zr.on('mousedown', onMouseDown);
+    zr.on('mousemove', onMouseMove);
+    zr.on('mouseup', onMouseUp);
+    zr.on('globalout', endBrush);
     zr.on('click', handler);
-    zrCleanupRef.current = () => zr.off('click', handler);
+    instance.on('click', onItemClick);
+    zrCleanupRef.current = () => {
+      endBrush();
+      instance.off('click', onItemClick);
+      zr.off('mousedown', onMouseDown);
+      zr.off('mousemove', onMouseMove);
+      zr.off('mouseup', onMouseUp);
+      zr.off('globalout', endBrush);
+      zr.off('click', handler);
+    };
   }, []); // No deps — reads everything through refs
 
   // Bind on mount; onChartReady re-binds if ECharts ever re-initialises.
@@ -120,112 +644,403 @@ export default function RoundedBarChart({
     const r = cornerRadius;
     const showLabel = labelStyle !== 'None';
 
-    // Map fontFamily dropdown value → ECharts fontFamily string.
-    // For Workbook Theme, read the document's computed font so ECharts can
-    // measure text correctly (avoids cut-off when using a non-default font).
-    const fontStyle = (() => {
-      if (!fontFamily || fontFamily === 'Default') return {};
-      if (fontFamily === 'Workbook Theme') {
-        const detected =
-          typeof window !== 'undefined'
-            ? getComputedStyle(document.body).fontFamily
-            : '';
-        return detected ? { fontFamily: detected } : {};
-      }
-      return { fontFamily };
-    })();
+    // ── Orientation ────────────────────────────────────────────────────────
+    // Everything below is written for horizontal bars; these name the axis
+    // keys and label sides that swap when the chart is drawn as columns.
+    const valueKey = vertical ? 'yAxis' : 'xAxis';
+    const crossKey = vertical ? 'xAxis' : 'yAxis';
+    const labelPosition = vertical ? ('top' as const) : ('right' as const);
+    const negativeLabelPosition = vertical ? ('bottom' as const) : ('left' as const);
+    // "Show X / Y Axis" refer to the axes as drawn.
+    const showCategoryLabels = vertical ? showXAxis : showYAxis;
+    const showValueLabels = vertical ? showYAxis : showXAxis;
+
+    const fontStyle = fontStyleFor(fontFamily);
+
+    const fmtSeries = (si: number, v: number) => (seriesFormatters[si] ?? totalFormatter)(v);
+
+    // ── Period comparison ─────────────────────────────────────────────────
+    // Change labels are rich text so the arrow and figures take the
+    // good / bad color.
+    const changeTag = (row: BarRow) => {
+      if (row.comparison === undefined) return '';
+      const change = computeChange(row.total, row.comparison, goodDirection);
+      return `{${change.tone}|${formatChange(change, totalFormatter)}}`;
+    };
+    const changeRich = Object.fromEntries(
+      Object.entries(CHANGE_COLORS).map(([tone, color]) => [tone, { ...fontStyle, fontSize, color }]),
+    );
+
+    // The target a label refers to: the row's own, else the global line.
+    const labelTarget = (row: BarRow) =>
+      row.target ?? (showTargetLine && targetMode !== 'Per-row Target' && !isNaN(targetLineValue) ? targetLineValue : undefined);
 
     const labelFormatter = (params: unknown) => {
       const p = params as { dataIndex: number };
       const row = data[p.dataIndex];
-      if (labelStyle === 'First Value Only') return fmt(row.values[0]);
-      return `${fmt(row.values[0])} / ${fmt(row.total)}`;
+      if (labelStyle === 'Template') {
+        return renderLabelTemplate(
+          barLabelTemplate,
+          { category: row.category, series: '', value: row.total, total: row.total, target: labelTarget(row) },
+          totalFormatter,
+          richText,
+        );
+      }
+      if (isChangeLabelStyle(labelStyle)) {
+        const tag = changeTag(row);
+        if (labelStyle === 'Change Only' && tag) return tag;
+        return tag ? `${totalFormatter(row.total)}  ${tag}` : totalFormatter(row.total);
+      }
+      if (normalize) {
+        // Percent share first, raw value alongside.
+        const first = `${fmtPct(plotted[p.dataIndex].values[0])} (${fmtSeries(0, row.values[0])})`;
+        return labelStyle === 'First Value Only' ? first : `${first} / ${totalFormatter(row.total)}`;
+      }
+      if (labelStyle === 'First Value Only') return fmtSeries(0, row.values[0]);
+      // Mixed-sign rows show both sides instead of a net total.
+      const { positive, negative } = signedTotals(row);
+      const total = positive !== 0 && negative !== 0
+        ? `+${totalFormatter(positive)} / ${totalFormatter(negative)}`
+        : totalFormatter(row.total);
+      return `${fmtSeries(0, row.values[0])} / ${total}`;
     };
 
-    // ── Target line ────────────────────────────────────────────────────────
-    // Uses a hidden secondary y-axis (value 0–1) so targetLineHeight% maps
+    // ── Selection highlighting ─────────────────────────────────────────────
+    // Runs on ECharts' emphasis / blur states, the same ones hover
+    // highlighting uses: after each render the selected bars are highlighted
+    // through dispatchAction (see applySelection), which blurs the rest of
+    // their series. Selected bars also get an outline of their own.
+    const selected = new Set(selectedCategories);
+    const selectionActive = selected.size > 0;
+    const hoverEmphasis = interactable && highlightBarOnHover;
+    const selectionStates = (blurOpacity: number, hover: boolean) => ({
+      emphasis: selectionActive
+        ? { focus: 'self' as const, blurScope: 'series' as const }
+        : hover ? {} : { disabled: true as const },
+      blur: { itemStyle: { opacity: blurOpacity }, label: { opacity: DIMMED_OPACITY } },
+    });
+
+    // ── Per-row targets ────────────────────────────────────────────────────
+    const perRowTargets = showTargetLine && targetMode === 'Per-row Target';
+    // Normalized bars all reach 100%, so a percent target can't tell them
+    // apart: the highlight is off in normalize mode (the editor label says so).
+    const exceedsTarget = (row: BarRow) =>
+      perRowTargets && highlightAboveTarget && !normalize && row.target !== undefined && row.total > row.target;
+
+    // Per-item overrides on top of the series style: the selection outline
+    // and the above-target color. Plain numbers are kept where nothing changes.
+    // A row color from "Color by column" fills the first series and fades
+    // towards white for later ones so the segments stay distinguishable.
+    const rowColor = (row: BarRow, si: number) =>
+      row.color && (si === 0 ? row.color : mixColors(row.color, '#FFFFFF', (si / n) * 0.6));
+    // Rules are evaluated on the raw rows so thresholds read in data units.
+    // In normalize mode targets are percentages, which no raw total can be
+    // measured against, so the target rules don't apply there.
+    const activeRules = normalize
+      ? colorRules.filter((rule) => rule.condition !== 'Above Target' && rule.condition !== 'Below Target')
+      : colorRules;
+    const matchedRuleColors = ruleColors(data, activeRules, showTargetLine && !perRowTargets ? targetLineValue : NaN);
+    // Negative bars also get their own corner radii and a label on their far side.
+    const withItemStyles = (values: number[], si: number, radiusAt: (i: number) => number | number[]) =>
+      values.map((value, i) => {
+        const color = matchedRuleColors[i]?.[si] ?? (exceedsTarget(data[i]) ? aboveTargetColor : rowColor(data[i], si));
+        const borderRadius = rotateRadius(radiusAt(i), vertical);
+        const itemStyle = {
+          ...(color ? { color } : {}),
+          ...(borderRadius !== r ? { borderRadius } : {}),
+        };
+        const emphasis = isSelected(data[i], selected)
+          ? { emphasis: { itemStyle: { borderColor: theme.strong, borderWidth: 2 } } }
+          : {};
+        // Segment labels sit inside the bar in a color readable on its fill;
+        // end labels move to the far side of negative bars.
+        const label = segmentLabels
+          ? { color: readableTextColor(color || (colors[si] ?? colors[colors.length - 1])) }
+          : value < 0 ? { position: negativeLabelPosition } : undefined;
+        return Object.keys(itemStyle).length > 0 || label || emphasis.emphasis
+          ? { value, itemStyle, ...(label ? { label } : {}), ...emphasis }
+          : value;
+      });
+
+    // ── Target & reference lines ───────────────────────────────────────────
+    // Uses a hidden secondary cross axis (value 0–1) so targetLineHeight% maps
     // directly to a fraction of the grid height with no category-index rounding.
-    // yAxis: 0.5 is always the exact vertical center regardless of row count.
-    const hasTargetLine = showTargetLine && !isNaN(targetLineValue);
-    const markLineConfig: MarkLineComponentOption | undefined = hasTargetLine
+    // 0.5 on it is always the exact center regardless of row count.
+    // Reference lines share the same markLine and always span the full height;
+    // each carries its own style on the first point of its pair.
+    const hasTargetLine = showTargetLine && !perRowTargets && !isNaN(targetLineValue);
+    const targetLinePairs = hasTargetLine
+      ? (() => {
+          const f = Math.min(1, Math.max(0, targetLineHeight / 100));
+          const half = f / 2;
+          return [[
+            { [valueKey]: targetLineValue, [crossKey]: 0.5 - half },
+            { [valueKey]: targetLineValue, [crossKey]: 0.5 + half },
+          ]];
+        })()
+      : [];
+    const referenceLinePairs = referenceLines.map((line) => [
+      {
+        [valueKey]: line.value,
+        [crossKey]: 0,
+        lineStyle: { color: line.color, width: line.width, type: line.dash },
+        label: line.labelPosition === 'Hidden'
+          ? { show: false }
+          : {
+              show: true,
+              position: REFERENCE_LABEL_POSITION[line.labelPosition],
+              formatter: line.label || `${line.name}: ${normalize ? fmtPct(line.value) : totalFormatter(line.value)}`,
+              color: line.color,
+              fontSize: fontSize - 1,
+              ...fontStyle,
+            },
+      },
+      { [valueKey]: line.value, [crossKey]: 1 },
+    ]);
+    const markLineConfig: MarkLineComponentOption | undefined = targetLinePairs.length + referenceLinePairs.length > 0
       ? {
           symbol: ['none', 'none'] as ['none', 'none'],
           silent: true,
           lineStyle: { color: targetLineColor || '#000000', width: targetLineThickness, type: 'solid' as const },
           label: { show: false },
-          data: (() => {
-            const f = Math.min(1, Math.max(0, targetLineHeight / 100));
-            const half = f / 2;
-            return [[
-              { xAxis: targetLineValue, yAxis: 0.5 - half },
-              { xAxis: targetLineValue, yAxis: 0.5 + half },
-            ]];
-          })(),
+          data: [...targetLinePairs, ...referenceLinePairs] as MarkLineComponentOption['data'],
+        }
+      : undefined;
+    const markAreaConfig: MarkAreaComponentOption | undefined = referenceBands.length > 0
+      ? {
+          silent: true,
+          data: referenceBands.map((band) => [
+            { [valueKey]: band.from, [crossKey]: 0, itemStyle: { color: band.color, opacity: 0.15 } },
+            { [valueKey]: band.to, [crossKey]: 1 },
+          ]) as MarkAreaComponentOption['data'],
         }
       : undefined;
 
     // ── Series ────────────────────────────────────────────────────────────
+    // grouped              → one bar per series side by side (each fully rounded)
     // midBarCurves = true  → cumulative overlapping bars (rounded cap on every segment)
     // midBarCurves = false → standard stacked bars (outer corners only)
     let series: object[];
 
-    if (midBarCurves) {
+    // ── Segment labels ──────────────────────────────────────────────────────
+    // `escape` is for labels with rich text (grouped end labels).
+    const segmentLabelFormatter = (si: number, escape?: (text: string) => string) => (params: unknown) => {
+      const row = data[(params as { dataIndex: number }).dataIndex];
+      return renderLabelTemplate(
+        segmentLabelTemplate || '{value}',
+        { category: row.category, series: seriesNames[si] ?? '', value: row.values[si] ?? 0, total: row.total, target: labelTarget(row) },
+        (v) => fmtSeries(si, v),
+        escape,
+      );
+    };
+    // Per-item label colors come from withItemStyles. Plain text only: an
+    // empty width (set by hideUnlessFits) then truncates the label to nothing.
+    const segmentLabel = (si: number, position: 'inside' | 'insideRight' | 'insideTop') => ({
+      show: true,
+      position,
+      fontSize: fontSize - 1,
+      ...fontStyle,
+      overflow: 'truncate' as const,
+      ellipsis: '',
+      formatter: segmentLabelFormatter(si),
+    });
+    // ECharts' label layout can resize a label but not hide it, so labels
+    // longer than their segment (or the visible fraction of it) get zero width.
+    const hideUnlessFits = (visibleFraction: (dataIndex: number) => number) => (params: unknown) => {
+      const { dataIndex, rect, labelRect } = params as {
+        dataIndex: number;
+        rect: { width: number; height: number };
+        labelRect: { width: number; height: number };
+      };
+      const f = visibleFraction(dataIndex);
+      const [along, across] = vertical ? [rect.height * f, rect.width] : [rect.width * f, rect.height];
+      const [textAlong, textAcross] = vertical ? [labelRect.height, labelRect.width] : [labelRect.width, labelRect.height];
+      return textAlong + 8 <= along && textAcross <= across + 2 ? {} : { width: 0 };
+    };
+    // Invisible, inert bar that only carries the whole-bar label.
+    const endLabelCarrier = {
+      name: '__barlabel__',
+      type: 'bar' as const,
+      itemStyle: { color: 'transparent' },
+      silent: true,
+      emphasis: { disabled: true as const },
+      label: { show: true, position: labelPosition, color: theme.muted, fontSize, ...fontStyle, formatter: labelFormatter, rich: changeRich },
+    };
+
+    if (grouped) {
+      // Every bar is barHeight thick, so a group grows with the series count;
+      // barMaxWidth (rather than barWidth) lets ECharts shrink the bars when
+      // the groups wouldn't otherwise fit with the requested gaps.
+      const groupLabelFormatter = (si: number) => (params: unknown) => {
+        const { dataIndex } = params as { dataIndex: number };
+        if (labelStyle === 'Template') return segmentLabelFormatter(si, richText)(params);
+        const raw = fmtSeries(si, data[dataIndex].values[si] ?? 0);
+        const text = normalize ? `${fmtPct(plotted[dataIndex].values[si] ?? 0)} (${raw})` : raw;
+        // The change is for the whole row, so it goes on the group's last bar.
+        const tag = isChangeLabelStyle(labelStyle) && si === n - 1 ? changeTag(data[dataIndex]) : '';
+        return tag ? `${text}  ${tag}` : text;
+      };
+      series = seriesNames.map((name, idx) => ({
+        name,
+        type: 'bar' as const,
+        barMaxWidth: barHeight,
+        barGap: `${groupBarGap}%`,
+        barCategoryGap: `${groupCategoryGap}%`,
+        data: withItemStyles(plotted.map((d) => d.values[idx] ?? 0), idx, () => r),
+        itemStyle: { color: colors[idx] ?? colors[colors.length - 1], borderRadius: r },
+        silent: !interactable,
+        ...selectionStates(DIMMED_OPACITY, hoverEmphasis),
+        // Each grouped bar is its own segment: inside labels replace end labels.
+        ...(segmentLabels
+          ? { label: segmentLabel(idx, 'inside'), labelLayout: hideUnlessFits(() => 1) }
+          : {
+              label: showLabel
+                ? { show: true, position: labelPosition, color: theme.muted, fontSize, ...fontStyle, formatter: groupLabelFormatter(idx), rich: changeRich }
+                : { show: false },
+            }),
+      }));
+    } else if (midBarCurves) {
       const seriesData = seriesNames.map((name, idx) => ({
         name,
         originalIdx: idx,
-        cumData: data.map((row) =>
-          row.values.slice(0, idx + 1).reduce((s, v) => s + v, 0),
-        ),
+        cumData: plotted.map((row) => cumulativeTo(row, idx)),
       }));
+      // Every bar is rounded all round, except the end at zero when the row
+      // has bars on both sides (they'd leave a notch at the baseline).
+      const cumRadius = (row: BarRow, value: number): number | number[] => {
+        const { positive, negative } = signedTotals(row);
+        if (positive === 0 || negative === 0) return r;
+        return value < 0 ? [r, 0, 0, r] : [0, r, r, 0];
+      };
       series = [...seriesData].reverse().map(({ name, originalIdx, cumData }) => ({
         name,
         type: 'bar' as const,
         barWidth: barHeight,
         barGap: '-100%',
-        data: cumData,
+        data: withItemStyles(cumData, originalIdx, (i) => cumRadius(plotted[i], cumData[i])),
         itemStyle: { color: colors[originalIdx] ?? colors[colors.length - 1], borderRadius: r },
         silent: !interactable,
-        emphasis: (interactable && highlightBarOnHover) ? {} : { disabled: true as const },
-        label: showLabel && originalIdx === n - 1
-          ? { show: true, position: 'right' as const, color: '#64748b', fontSize, ...fontStyle, formatter: labelFormatter }
-          : { show: false },
+        ...selectionStates(DIMMED_OPACITY, hoverEmphasis),
+        // Only the part of a cumulative bar beyond the next-shorter one is
+        // visible, so its label sits at the bar's end and must fit that part.
+        ...(segmentLabels
+          ? {
+              label: segmentLabel(originalIdx, vertical ? 'insideTop' : 'insideRight'),
+              labelLayout: hideUnlessFits((dataIndex) => {
+                const cum = Math.abs(cumData[dataIndex] ?? 0);
+                return cum > 0 ? Math.abs(plotted[dataIndex].values[originalIdx] ?? 0) / cum : 0;
+              }),
+            }
+          : {
+              label: showLabel && originalIdx === n - 1
+                ? { show: true, position: labelPosition, color: theme.muted, fontSize, ...fontStyle, formatter: labelFormatter, rich: changeRich }
+                : { show: false },
+            }),
       }));
-    } else {
-      // Outer-only rounding: left caps on first series, right caps on last, flat in between
-      function radiusFor(idx: number): number | number[] {
-        if (n === 1) return r;
-        if (idx === 0) return [r, 0, 0, r];
-        if (idx === n - 1) return [0, r, r, 0];
-        return 0;
+      if (segmentLabels && showLabel) {
+        // End labels ride on an invisible bar as long as the whole row.
+        series.push({
+          ...endLabelCarrier,
+          barWidth: barHeight,
+          barGap: '-100%',
+          data: plotted.map((row) => {
+            const { positive, negative } = signedTotals(row);
+            return positive !== 0 ? positive : negative;
+          }),
+        });
       }
+    } else {
+      // Outer-only rounding, worked out per row (see stackedRadius). ECharts'
+      // default 'samesign' stack strategy stacks negatives leftwards from zero.
       series = seriesNames.map((name, idx) => ({
         name,
         type: 'bar' as const,
         stack: 'total',
         barWidth: barHeight,
-        data: data.map((d) => d.values[idx] ?? 0),
-        itemStyle: { color: colors[idx] ?? colors[colors.length - 1], borderRadius: radiusFor(idx) },
+        data: withItemStyles(plotted.map((d) => d.values[idx] ?? 0), idx, (i) => stackedRadius(plotted[i], idx, r)),
+        itemStyle: { color: colors[idx] ?? colors[colors.length - 1], borderRadius: r },
         silent: !interactable,
-        emphasis: (interactable && highlightBarOnHover) ? {} : { disabled: true as const },
-        label: showLabel && idx === n - 1
-          ? { show: true, position: 'right' as const, color: '#64748b', fontSize, ...fontStyle, formatter: labelFormatter }
-          : { show: false },
+        ...selectionStates(DIMMED_OPACITY, hoverEmphasis),
+        ...(segmentLabels
+          ? { label: segmentLabel(idx, 'inside'), labelLayout: hideUnlessFits(() => 1) }
+          : {
+              label: showLabel && idx === n - 1
+                ? { show: true, position: labelPosition, color: theme.muted, fontSize, ...fontStyle, formatter: labelFormatter, rich: changeRich }
+                : { show: false },
+            }),
       }));
+      if (segmentLabels && showLabel) {
+        // End labels ride on an empty segment stacked on top of the others.
+        series.push({ ...endLabelCarrier, stack: 'total', barWidth: barHeight, data: plotted.map(() => 0) });
+      }
     }
 
-    // Dummy series that carries the markLine, using the secondary y-axis (index 1).
-    // Attaching it here (not to a bar series) keeps bar rendering independent.
-    const targetLineSeries = markLineConfig
+    // Comparison "ghost" bars: thin, translucent and rounded, drawn under the
+    // main bars (z 1). ECharts shares barGap across every bar series on an
+    // axis, so 'Beside' only has its own gap in stacked mode; grouped mode
+    // keeps the group gap (the ghost becomes one more bar in the group) and
+    // the overlapping midBarCurves bars force it behind. A ghost behind sits
+    // on a hidden copy of the category axis so it's centred on the main bar
+    // rather than laid out next to it. Percent axes (normalize) have no place
+    // for a raw value, so no ghost is drawn there.
+    const comparisonSeries = showGhost
+      ? [{
+          name: '__comparison__',
+          type: 'bar' as const,
+          ...(grouped
+            ? { barMaxWidth: ghostWidth, barGap: `${groupBarGap}%`, barCategoryGap: `${groupCategoryGap}%` }
+            : ghostBeside
+            ? { barWidth: ghostWidth, barGap: '15%' }
+            : { barWidth: ghostWidth, [vertical ? 'xAxisIndex' : 'yAxisIndex']: 2 }),
+          data: data.map((row) => (row.comparison === undefined ? null : row.comparison)),
+          itemStyle: { color: colors[0] ?? theme.subtle, opacity: GHOST_OPACITY, borderRadius: r },
+          z: 1,
+          silent: true,
+          ...selectionStates(GHOST_OPACITY * DIMMED_OPACITY, false),
+          label: { show: false },
+        }]
+      : [];
+
+    // Dummy series that carries the markLine / markArea, using the secondary
+    // cross axis (index 1). Attaching it here (not to a bar series) keeps bar
+    // rendering independent.
+    const targetLineSeries = markLineConfig || markAreaConfig
       ? [{
           name: '__targetline__',
           type: 'bar' as const,
-          yAxisIndex: 1,
+          [vertical ? 'xAxisIndex' : 'yAxisIndex']: 1,
           barWidth: 0,
           data: [],
           silent: true,
           emphasis: { disabled: true as const },
           label: { show: false },
           markLine: markLineConfig,
+          markArea: markAreaConfig,
+        }]
+      : [];
+
+    // Per-row target ticks: a thin rounded rect centred on each row's target,
+    // slightly taller than the bar (the whole group when grouped) so it reads
+    // as a notch across it. One data point per row (null when a row has no
+    // target) keeps dataIndex aligned with the bar series for the axis tooltip.
+    const tickLength = (grouped ? n * barHeight + (n - 1) * barHeight * (groupBarGap / 100) : barHeight) + 8;
+    const targetTickSeries = perRowTargets
+      ? [{
+          name: '__targetticks__',
+          type: 'scatter' as const,
+          symbol: 'roundRect',
+          symbolSize: vertical
+            ? [tickLength, Math.max(targetLineThickness, 2)]
+            : [Math.max(targetLineThickness, 2), tickLength],
+          data: data.map((row, i) => {
+            if (row.target === undefined) return null;
+            return vertical ? [i, row.target] : [row.target, i];
+          }),
+          itemStyle: { color: targetLineColor || '#000000' },
+          z: 10,
+          silent: true,
+          emphasis: { disabled: true as const },
+          label: { show: false },
         }]
       : [];
 
@@ -252,8 +1067,10 @@ export default function RoundedBarChart({
           orient: isVerticalLegend ? ('vertical' as const) : ('horizontal' as const),
           ...legendPlacement,
           data: seriesNames,
+          selected: Object.fromEntries(seriesNames.map((name) => [name, !hiddenSeries.includes(name)])),
+          inactiveColor: theme.axisLine,
           itemStyle: { borderWidth: 0 },
-          textStyle: { ...fontStyle, color: '#64748b', fontSize },
+          textStyle: { ...fontStyle, color: theme.muted, fontSize },
         }
       : { show: false };
 
@@ -264,10 +1081,9 @@ export default function RoundedBarChart({
       legendPosition === 'Top Right' ||
       legendPosition === 'Bottom Right';
 
-    // Dynamic right-legend width: 20px swatch + 8px gap + ~7px per character
-    const legendRightWidth = showLegend && legendOnRight
-      ? 28 + Math.max(...seriesNames.map((sn) => sn.length), 0) * 7
-      : 0;
+    // Side legends are as wide as their icon plus the longest measured name.
+    const legendSideWidth = LEGEND_ICON_SPACE + Math.max(...seriesNames.map((sn) => measureText(sn, fontSize, fontStyle.fontFamily)), 0);
+    const legendRightWidth = showLegend && legendOnRight ? legendSideWidth : 0;
 
     // When padding is off and an axis is hidden, collapse that side to 0 so
     // ECharts doesn't reserve phantom space for the hidden axis.
@@ -275,9 +1091,14 @@ export default function RoundedBarChart({
     const legendAtTop    = showLegend && legendPosition === 'Top';
     const legendAtLeft   = showLegend && legendPosition === 'Left';
 
-    const gridTop = !showPadding && !title && !legendAtTop
+    // Value labels sit past the bar ends: to the right of horizontal bars,
+    // above vertical ones.
+    const rightLabelSpace = showLabel && !vertical ? (isChangeLabelStyle(labelStyle) ? 160 : 80) : 0;
+    const topLabelSpace = showLabel && vertical ? fontSize + 8 : 0;
+
+    const gridTop = (!showPadding && !title && !legendAtTop
       ? 0
-      : (title ? effectivePadding + 32 : effectivePadding) + (legendAtTop ? legendOffset : 0);
+      : (title ? effectivePadding + 32 : effectivePadding) + (legendAtTop ? legendOffset : 0)) + topLabelSpace;
 
     const gridBottom = !showPadding && !showXAxis && !legendAtBottom
       ? 0
@@ -285,12 +1106,169 @@ export default function RoundedBarChart({
 
     const gridLeft = !showPadding && !showYAxis && !legendAtLeft
       ? 0
-      : effectivePadding + (legendAtLeft ? 80 : 0);
+      : effectivePadding + (legendAtLeft ? legendSideWidth : 0);
 
     // When legend is on the right, it shares space with value labels — use whichever is larger
     const gridRight = legendOnRight && showLegend
-      ? Math.max(legendRightWidth, showLabel ? 80 : 0) + effectivePadding
-      : (showLabel ? effectivePadding + 80 : effectivePadding);
+      ? Math.max(legendRightWidth, rightLabelSpace) + effectivePadding
+      : effectivePadding + rightLabelSpace;
+
+    // ── Scrolling ──────────────────────────────────────────────────────────
+    // A row is one category band: the bar or the whole group, plus a ghost
+    // bar set beside it, and the row gap. When more rows than fit would be
+    // squeezed, a dataZoom window over the category axis shows as many as
+    // fit, moved by the wheel or a slim slider. The value axis and legend
+    // stay where they are.
+    const ghostBesideSpace = !showGhost || ghostBehind
+      ? 0
+      : grouped
+      ? ghostWidth + barHeight * (groupBarGap / 100)
+      : ghostWidth * 1.15;
+    const rowPitch = grouped
+      ? n * barHeight + (n - 1) * barHeight * (groupBarGap / 100) + ghostBesideSpace + rowGap
+      : barHeight + ghostBesideSpace + rowGap;
+    const plotLength = vertical
+      ? containerSize.width - gridLeft - gridRight - 48
+      : containerSize.height - gridTop - gridBottom - (showXAxis ? fontSize + 12 : 0);
+    const visibleRows = Math.max(1, Math.floor(plotLength / rowPitch));
+    const scrolling = scrollLongLists && containerSize.height > 0 && data.length > visibleRows;
+    const scrollStart = Math.min(Math.max(0, scrollStartRef.current), Math.max(0, data.length - visibleRows));
+    const categoryAxisIndex = { [vertical ? 'xAxisIndex' : 'yAxisIndex']: ghostBehind ? [0, 2] : 0 };
+    const dataZoom = scrolling
+      ? [
+          {
+            type: 'inside' as const,
+            ...categoryAxisIndex,
+            startValue: scrollStart,
+            endValue: scrollStart + visibleRows - 1,
+            zoomLock: true,
+            zoomOnMouseWheel: false,
+            moveOnMouseWheel: true,
+            // Dragging stays free for clicks and brushing.
+            moveOnMouseMove: false,
+          },
+          {
+            type: 'slider' as const,
+            ...categoryAxisIndex,
+            startValue: scrollStart,
+            endValue: scrollStart + visibleRows - 1,
+            zoomLock: true,
+            brushSelect: false,
+            showDetail: false,
+            showDataShadow: false,
+            handleSize: 0,
+            moveHandleSize: 0,
+            ...(vertical
+              ? { height: 8, bottom: 4, left: gridLeft, right: gridRight }
+              : { width: 8, right: 4, top: gridTop, bottom: gridBottom }),
+            borderColor: 'transparent',
+            backgroundColor: 'transparent',
+            fillerColor: theme.axisLine,
+            dataBackground: { lineStyle: { opacity: 0 }, areaStyle: { opacity: 0 } },
+          },
+        ]
+      : undefined;
+
+    // ── Diverging baseline ─────────────────────────────────────────────────
+    const hasNegatives = plotted.some((row) => row.values.some((v) => v < 0));
+    const centered = centerCategoryAxis && hasNegatives;
+    const symmetricExtent = centered
+      ? (() => {
+          const reach = Math.max(...plotted.map((row) => {
+            const { positive, negative } = signedTotals(row);
+            return Math.max(positive, -negative);
+          }), 0);
+          return { min: -reach, max: reach };
+        })()
+      : {};
+    // Normalized bars always span exactly 0–100% (±100% with negatives).
+    // A fixed range is still mirrored around zero in the centered layout.
+    const valueExtent = normalize
+      ? { min: hasNegatives ? -100 : 0, max: 100 }
+      : valueRange
+      ? centered
+        ? { min: -Math.max(valueRange.max, -valueRange.min), max: Math.max(valueRange.max, -valueRange.min) }
+        : valueRange
+      : symmetricExtent;
+
+    // ── Category label fit (vertical) ─────────────────────────────────────
+    // Columns give each label only its band width; rotate when the widest
+    // label wouldn't fit flat, and go fully upright (truncating) when even a
+    // diagonal line of text won't fit between neighbours.
+    const categoryLabelLayout = (() => {
+      if (!vertical || containerSize.width === 0) return {};
+      const plotWidth = Math.max(1, containerSize.width - gridLeft - gridRight - 48);
+      const band = plotWidth / Math.max(1, data.length);
+      const widest = Math.max(...categories.map((c) => measureText(c, fontSize, fontStyle.fontFamily)), 0);
+      if (widest <= band * 0.9) return { interval: 0, rotate: 0 };
+      return {
+        interval: 0,
+        rotate: band >= fontSize * 1.5 ? 45 : 90,
+        width: MAX_ROTATED_LABEL_WIDTH,
+        overflow: 'truncate' as const,
+        hideOverlap: true,
+      };
+    })();
+
+    const valueAxis = {
+      type: 'value' as const,
+      show: showValueLabels,
+      ...valueExtent,
+      splitLine: { show: false },
+      axisLine: { show: false },
+      axisTick: { show: false },
+      axisLabel: {
+        ...fontStyle,
+        color: theme.subtle,
+        fontSize: fontSize - 1,
+        formatter: (v: number) => (normalize ? fmtPct(v) : totalFormatter(v)),
+      },
+    };
+
+    const categoryAxis = {
+      type: 'category' as const,
+      data: categories,
+      // Horizontal: first row at the top so sorted / Top-N order reads
+      // top-down. Vertical: first column on the left.
+      inverse: !vertical,
+      // ECharts moves a category axis onto the value axis' zero by default
+      // once negatives appear; keep labels at the edge unless the centered
+      // layout is asked for, which also draws the baseline.
+      axisLine: centered
+        ? { show: true, onZero: true, onZeroAxisIndex: 0, lineStyle: { color: theme.axisLine } }
+        : { show: false, onZero: false },
+      axisTick: { show: false },
+      axisLabel: {
+        ...fontStyle,
+        show: showCategoryLabels,
+        color: theme.label,
+        fontSize,
+        ...categoryLabelLayout,
+        // Selected categories are called out in bold alongside the dimming.
+        formatter: (value: string) => richText(value, selected.has(value) ? 'selected' : 'plain'),
+        rich: { selected: { ...fontStyle, fontSize, fontWeight: 700, color: theme.strong } },
+      },
+    };
+
+    // Hidden secondary axis (0–1) spanning the grid: positions target /
+    // reference lines precisely and gives gridRect the grid's edges.
+    const crossAxis = {
+      type: 'value' as const,
+      min: 0,
+      max: 1,
+      show: false,
+      splitLine: { show: false },
+      axisLine: { show: false },
+      axisTick: { show: false },
+      axisLabel: { show: false },
+    };
+
+    // Hidden copy of the category axis that only lays out the ghost bars
+    // behind (see comparisonSeries).
+    const ghostAxis = { ...categoryAxis, show: false, axisLabel: { show: false } };
+    const categoryAxes = ghostBehind ? [categoryAxis, crossAxis, ghostAxis] : [categoryAxis, crossAxis];
+    // The value dimension gets one too, only for gridRect.
+    const valueAxes = [valueAxis, crossAxis];
 
     // containLabel adds internal padding for label text — skip it when all
     // axis labels are hidden to avoid phantom whitespace.
@@ -302,23 +1280,69 @@ export default function RoundedBarChart({
             text: title,
             left: 'left',
             top: effectivePadding / 2,
-            textStyle: { ...fontStyle, fontSize: fontSize + 3, fontWeight: 600, color: '#1e293b' },
+            textStyle: { ...fontStyle, fontSize: fontSize + 3, fontWeight: 600, color: theme.strong },
           }
         : undefined,
       tooltip: (interactable && showHoverTooltip)
         ? {
             trigger: 'axis',
             axisPointer: { type: 'shadow' },
+            ...(theme.tooltip
+              ? {
+                  backgroundColor: theme.tooltip.backgroundColor,
+                  borderColor: theme.tooltip.borderColor,
+                  textStyle: { color: theme.tooltip.textColor },
+                }
+              : {}),
             formatter: (params: unknown) => {
               const p = params as Array<{ seriesName: string; value: number; dataIndex: number }>;
               if (p.length === 0) return '';
               const idx = p[0].dataIndex;
               const row = data[idx];
-              const lines = [`<b>${row.category}</b>`];
+              // Everything from the data or the workbook is escaped; only the
+              // markup written here is trusted.
+              const esc = escapeHtml;
+              const note = (text: string) => `<span style="color:${theme.subtle}">${esc(text)}</span>`;
+              const swatch = (color: string) =>
+                `<span style="display:inline-block;width:10px;height:10px;border-radius:3px;margin-right:6px;background:${esc(color)}"></span>`;
+              const lines = [`<b>${esc(row.category)}</b>`, note(`Aggregation: ${aggregation}`)];
+              if (row.otherCategories) {
+                lines.push(note(`${row.otherCategories.length} categories`));
+              }
+              // Share of the bar: each segment's part of the row's total
+              // magnitude (the same figure normalize mode draws).
+              const shares = normalizeRow(row).values;
               seriesNames.forEach((name, si) => {
-                lines.push(`${name}: ${fmt(row.values[si] ?? 0)}`);
+                if (hiddenSeries.includes(name)) return;
+                const color = matchedRuleColors[idx]?.[si] ?? rowColor(row, si) ?? colors[si] ?? colors[colors.length - 1];
+                const share = n > 1 && row.total !== 0 ? ` (${fmtPct(shares[si] ?? 0)})` : '';
+                lines.push(`${swatch(color)}${esc(name)}: ${esc(fmtSeries(si, row.values[si] ?? 0))}${share}`);
+              });
+              const { positive, negative } = signedTotals(row);
+              if (positive !== 0 && negative !== 0) {
+                lines.push(`Positive total: ${esc(totalFormatter(positive))}`);
+                lines.push(`Negative total: ${esc(totalFormatter(negative))}`);
+                lines.push(`Net total: ${esc(totalFormatter(row.total))}`);
+              } else {
+                lines.push(`Total: ${esc(totalFormatter(row.total))}`);
+              }
+              if (row.comparison !== undefined) {
+                const change = computeChange(row.total, row.comparison, goodDirection);
+                lines.push(`${esc(comparisonName)}: ${esc(totalFormatter(row.comparison))}`);
+                lines.push(`Change: <span style="color:${CHANGE_COLORS[change.tone]}">${esc(formatChange(change, totalFormatter))}</span>`);
+              }
+              if (perRowTargets && row.target !== undefined) {
+                if (normalize) {
+                  lines.push(`Target: ${fmtPct(row.target)}`);
+                } else {
+                  const pct = row.target !== 0 ? ` (${Math.round((row.total / row.target) * 100)}% of target)` : '';
+                  lines.push(`Target: ${esc(totalFormatter(row.target))}${pct}`);
+                }
+              }
+              tooltipFieldNames.forEach((name, fi) => {
+                const value = row.tooltipValues?.[fi];
+                if (value) lines.push(`${esc(name)}: ${esc(value)}`);
               });
-              lines.push(`Total: ${fmt(row.total)}`);
               return lines.join('<br/>');
             },
           }
@@ -326,52 +1350,252 @@ export default function RoundedBarChart({
       legend: legendConfig,
       grid: {
         top: gridTop,
-        bottom: gridBottom,
+        bottom: gridBottom + (scrolling && vertical ? SCROLLBAR_SPACE : 0),
         left: gridLeft,
-        right: gridRight,
+        right: gridRight + (scrolling && !vertical ? SCROLLBAR_SPACE : 0),
         containLabel,
       },
-      xAxis: {
-        type: 'value',
-        show: showXAxis,
-        splitLine: { show: false },
-        axisLine: { show: false },
-        axisTick: { show: false },
-        axisLabel: { ...fontStyle, color: '#94a3b8', fontSize: fontSize - 1 },
-      },
-      yAxis: [
-        {
-          type: 'category' as const,
-          data: categories,
-          inverse: false,
-          axisLine: { show: false },
-          axisTick: { show: false },
-          axisLabel: { ...fontStyle, show: showYAxis, color: '#475569', fontSize },
-        },
-        // Hidden secondary axis (0–1) used solely for precise target line positioning
+      dataZoom,
+      xAxis: vertical ? categoryAxes : valueAxes,
+      yAxis: vertical ? valueAxes : categoryAxes,
+      series: [...series, ...comparisonSeries, ...targetLineSeries, ...targetTickSeries],
+    };
+  }, [data, plotted, normalize, seriesNames, colors, theme, title, vertical, containerSize.width, containerSize.height, cornerRadius, barHeight, rowGap, scrollLongLists, chartPadding, showPadding, labelStyle, barLabelTemplate, segmentLabels, segmentLabelTemplate, comparisonName, comparisonPlacement, goodDirection, showLegend, legendPosition, hiddenSeries, showXAxis, showYAxis, fontFamily, fontSize, interactable, showHoverTooltip, highlightBarOnHover, grouped, midBarCurves, groupBarGap, groupCategoryGap, aggregation, valueRange, centerCategoryAxis, seriesFormatters, totalFormatter, showTargetLine, targetLineValue, targetLineColor, targetLineThickness, targetLineHeight, targetMode, highlightAboveTarget, aboveTargetColor, colorRules, tooltipFieldNames, referenceLines, referenceBands, selectedCategories]);
+
+  // Re-applied after every render and scroll: both rebuild the bar elements,
+  // which drops their highlight state.
+  useEffect(() => {
+    applySelectionRef.current = () => {
+      const inst = chartRef.current?.getEchartsInstance();
+      if (!inst) return;
+      const seriesIndex = ((option.series as object[] | undefined) ?? []).map((_, i) => i);
+      inst.dispatchAction({ type: 'downplay', seriesIndex });
+      const selected = new Set(selectedCategories);
+      if (selected.size === 0) return;
+      const dataIndex = data.flatMap((row, i) => (isSelected(row, selected) ? [i] : []));
+      inst.dispatchAction({ type: 'highlight', seriesIndex, dataIndex });
+    };
+    applySelectionRef.current();
+  }, [option, data, selectedCategories, zoomTick]);
+
+  const handleExport = (format: ExportFormat) => {
+    if (format === 'CSV') {
+      exportCsv([{ rows: allRows }], seriesNames, comparisonName, exportTitle);
+      return;
+    }
+    const chart = chartRef.current?.getEchartsInstance();
+    if (!chart) return;
+    exportImage([chart], format === 'SVG' ? 'svg' : 'png', parseInt(format.slice(4), 10) || 1, {
+      title: exportTitle,
+      titleStyle: { ...fontStyleFor(fontFamily), fontSize: fontSize + 3, fontWeight: 600, color: theme.strong },
+      background,
+    }).catch((err) => console.warn('[plugin] export failed:', err));
+  };
+
+  // ── Keyboard navigation ────────────────────────────────────────────────────
+  // The canvas can't take focus, so the element around it does. Arrow keys
+  // along the category axis move between bars, arrows across it between the
+  // series in a bar, and Enter / Space go through onBarClick like a click.
+  // Only keyboard focus draws the ring and speaks: clicking the chart focuses
+  // the same element.
+  const [focused, setFocused] = useState<{ row: number; series: number | null } | null>(null);
+  const [keyboardFocus, setKeyboardFocus] = useState(false);
+  const [focusRing, setFocusRing] = useState<Rect | null>(null);
+  const visibleSeries = seriesNames.flatMap((name, si) => (hiddenSeries.includes(name) ? [] : [si]));
+  // Re-clamped on every render: drilling or hiding a series can leave the
+  // stored position pointing past the data.
+  const focus = focused && data.length > 0
+    ? {
+        row: Math.min(focused.row, data.length - 1),
+        series: focused.series !== null && visibleSeries.includes(focused.series) ? focused.series : visibleSeries[0] ?? null,
+      }
+    : null;
+
+  const onFocus = (e: FocusEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    setKeyboardFocus(e.currentTarget.matches(':focus-visible'));
+    if (!focused) setFocused({ row: 0, series: visibleSeries[0] ?? null });
+  };
+
+  const onBlur = (e: FocusEvent<HTMLDivElement>) => {
+    if (e.target === e.currentTarget) setKeyboardFocus(false);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || data.length === 0) return;
+    const current = focus ?? { row: 0, series: visibleSeries[0] ?? null };
+    const seriesPos = current.series === null ? -1 : visibleSeries.indexOf(current.series);
+    const toRow = (row: number) => ({ ...current, row: Math.min(data.length - 1, Math.max(0, row)) });
+    const toSeries = (step: number) => ({
+      ...current,
+      series: visibleSeries[Math.min(visibleSeries.length - 1, Math.max(0, seriesPos + step))] ?? null,
+    });
+    // Bars list categories top to bottom and stack series left to right;
+    // columns run categories left to right and stack series upwards.
+    const next = (() => {
+      switch (e.key) {
+        case 'ArrowDown':  return vertical ? toSeries(-1) : toRow(current.row + 1);
+        case 'ArrowUp':    return vertical ? toSeries(1) : toRow(current.row - 1);
+        case 'ArrowRight': return vertical ? toRow(current.row + 1) : toSeries(1);
+        case 'ArrowLeft':  return vertical ? toRow(current.row - 1) : toSeries(-1);
+        case 'Home':       return toRow(0);
+        case 'End':        return toRow(data.length - 1);
+        default:           return null;
+      }
+    })();
+    if (next) {
+      e.preventDefault();
+      setFocused(next);
+      setKeyboardFocus(true);
+      return;
+    }
+    if ((e.key === 'Enter' || e.key === ' ') && interactable) {
+      e.preventDefault();
+      onBarClick(
         {
-          type: 'value' as const,
-          min: 0,
-          max: 1,
-          show: false,
-          splitLine: { show: false },
-          axisLine: { show: false },
-          axisTick: { show: false },
-          axisLabel: { show: false },
+          row: data[current.row],
+          seriesIndex: current.series,
+          seriesName: current.series === null ? null : seriesNames[current.series] ?? null,
         },
-      ],
-      series: [...series, ...targetLineSeries],
-    };
-  }, [data, seriesNames, colors, title, cornerRadius, barHeight, chartPadding, showPadding, labelStyle, showLegend, legendPosition, showXAxis, showYAxis, fontFamily, fontSize, interactable, showHoverTooltip, highlightBarOnHover, midBarCurves, showTargetLine, targetLineValue, targetLineColor, targetLineThickness, targetLineHeight]);
+        { shiftKey: e.shiftKey, ctrlKey: e.ctrlKey || e.metaKey },
+      );
+    }
+  };
+
+  // Places the ring over the focused segment once ECharts has laid it out.
+  // A row outside the scroll window is scrolled into view first; the
+  // datazoom event bumps zoomTick and brings this back round to draw it.
+  const focusRow = focus?.row;
+  const focusSeries = focus?.series;
+  useEffect(() => {
+    const inst = chartRef.current?.getEchartsInstance();
+    if (!inst || !keyboardFocus || focusRow === undefined) {
+      setFocusRing(null);
+      return;
+    }
+    const zoom = (option.dataZoom as { startValue: number; endValue: number }[] | undefined)?.[0];
+    if (zoom) {
+      const span = zoom.endValue - zoom.startValue;
+      const start = Math.min(Math.max(0, scrollStartRef.current), Math.max(0, plotted.length - 1 - span));
+      if (focusRow < start || focusRow > start + span) {
+        const startValue = focusRow < start ? focusRow : focusRow - span;
+        inst.dispatchAction({ type: 'dataZoom', startValue, endValue: startValue + span });
+        return;
+      }
+    }
+    const row = plotted[focusRow];
+    if (!row || focusSeries === null || focusSeries === undefined) {
+      setFocusRing(null);
+      return;
+    }
+    // The segment's slot across its band, from the columns ECharts lays out
+    // there: one bar per series it lays out (legend-hidden ones drop out)
+    // plus the ghost when grouped, otherwise the stack with any ghost beside.
+    const grid = gridRect(inst);
+    const bandWidth = (vertical ? grid.width : grid.height) / (zoom ? zoom.endValue - zoom.startValue + 1 : plotted.length);
+    const laidOut = seriesNames.flatMap((name, si) => (showLegend && hiddenSeries.includes(name) ? [] : [si]));
+    const slot = grouped
+      ? barSlots(
+          bandWidth,
+          [...laidOut.map(() => ({ maxWidth: barHeight })), ...(showGhost ? [{ maxWidth: ghostWidth }] : [])],
+          groupBarGap / 100,
+          groupCategoryGap / 100,
+        )[laidOut.indexOf(focusSeries)]
+      : barSlots(bandWidth, [{ width: barHeight }, ...(showGhost && ghostBeside ? [{ width: ghostWidth }] : [])], 0.15, 0)[0];
+    // Grouped bars start at zero; stacked segments (and the visible part of
+    // a midBarCurves bar) run between the same-signed sums either side.
+    const end = grouped ? row.values[focusSeries] ?? 0 : cumulativeTo(row, focusSeries);
+    const start = grouped ? 0 : end - (row.values[focusSeries] ?? 0);
+    setFocusRing(slot ? segmentRect(inst, focusRow, start, end, slot, vertical) : null);
+  }, [keyboardFocus, focusRow, focusSeries, plotted, option, grouped, vertical, zoomTick, showLegend, hiddenSeries, seriesNames, barHeight, showGhost, ghostBeside, ghostWidth, groupBarGap, groupCategoryGap]);
+
+  // What the live region reads out for the focused bar.
+  const announcement = (() => {
+    if (!focus || !keyboardFocus) return '';
+    const row = data[focus.row];
+    const parts = [row.category];
+    if (focus.series !== null) {
+      const format = seriesFormatters[focus.series] ?? totalFormatter;
+      parts.push(`${seriesNames[focus.series]} ${format(row.values[focus.series] ?? 0)}`);
+    }
+    if (visibleSeries.length > 1) parts.push(`total ${totalFormatter(row.total)}`);
+    if (row.target !== undefined) parts.push(`target ${totalFormatter(row.target)}`);
+    if (row.comparison !== undefined) parts.push(`${comparisonName || 'comparison'} ${totalFormatter(row.comparison)}`);
+    if (selectedCategories.includes(row.category)) parts.push('selected');
+    parts.push(`${focus.row + 1} of ${data.length}`);
+    return parts.join(', ');
+  })();
+  const onAnnounce = panel?.onAnnounce;
+  useEffect(() => { onAnnounce?.(announcement); }, [onAnnounce, announcement]);
+
+  // A panel hands its instance to the grid, which exports every panel at once.
+  const panelRef = useRef(panel);
+  useEffect(() => { panelRef.current = panel; });
+  useEffect(() => {
+    const chart = chartRef.current?.getEchartsInstance();
+    if (chart) panelRef.current?.onChartInstance(chart);
+    return () => panelRef.current?.onChartInstance(null);
+  }, []);
 
   return (
-    <ReactECharts
-      ref={chartRef}
-      option={option}
-      style={{ width: '100%', height: '100%' }}
-      opts={{ renderer: 'canvas' }}
-      notMerge
-      onChartReady={bindClickHandler}
-    />
+    <div ref={containerRef} style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <div
+        tabIndex={panel && !panel.tabStop ? -1 : 0}
+        role="application"
+        aria-roledescription="bar chart"
+        aria-label={`${exportTitle || 'Bar chart'}. Arrow keys move between bars${interactable ? '; Enter selects' : ''}${panel ? '; Page Up and Page Down move between charts' : ''}.`}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        onKeyDown={onKeyDown}
+        style={{
+          width: '100%',
+          height: '100%',
+          // The ring marks the focused bar; without one, outline the chart.
+          outline: keyboardFocus && !focusRing ? `2px solid ${theme.link}` : 'none',
+          outlineOffset: -2,
+        }}
+      >
+        <ReactECharts
+          ref={chartRef}
+          option={option}
+          style={{ width: '100%', height: '100%' }}
+          opts={{ renderer: 'canvas' }}
+          notMerge
+          onEvents={onEvents}
+          onChartReady={bindClickHandler}
+        />
+      </div>
+      {focusRing && (
+        <div
+          aria-hidden
+          style={{
+            position: 'absolute',
+            left: focusRing.x - 3,
+            top: focusRing.y - 3,
+            width: focusRing.width + 6,
+            height: focusRing.height + 6,
+            boxSizing: 'border-box',
+            border: `2px solid ${theme.link}`,
+            borderRadius: cornerRadius + 3,
+            pointerEvents: 'none',
+          }}
+        />
+      )}
+      {!panel && (
+        <>
+          <ExportMenu formats={exportFormats} onExport={handleExport} theme={theme} />
+          <div aria-live="polite" style={VISUALLY_HIDDEN}>{announcement}</div>
+          <ChartDataTable
+            caption={exportTitle}
+            groups={[{ rows: data }]}
+            seriesNames={seriesNames}
+            hiddenSeries={hiddenSeries}
+            comparisonName={comparisonName}
+            seriesFormatters={seriesFormatters}
+            totalFormatter={totalFormatter}
+          />
+        </>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,66 @@
+import type { ChartTheme } from '../utils/theme';
+
+interface SeriesLegendProps {
+  seriesNames: string[];
+  colors: string[];
+  // Series toggled off; shown greyed out.
+  hiddenSeries: string[];
+  onToggle: (name: string) => void;
+  fontFamily?: string;
+  fontSize: number;
+  theme: ChartTheme;
+}
+
+// A single HTML legend shared by every small-multiples panel (the panels
+// themselves draw none). Each entry is a button that hides or shows its series.
+export default function SeriesLegend({ seriesNames, colors, hiddenSeries, onToggle, fontFamily, fontSize, theme }: SeriesLegendProps) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: '4px 16px',
+        flexShrink: 0,
+        padding: '4px 8px',
+        fontFamily,
+        fontSize,
+        color: theme.muted,
+      }}
+    >
+      {seriesNames.map((name, i) => {
+        const hidden = hiddenSeries.includes(name);
+        return (
+          <button
+            key={name}
+            type="button"
+            aria-pressed={!hidden}
+            onClick={() => onToggle(name)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: 0,
+              border: 'none',
+              background: 'none',
+              font: 'inherit',
+              color: hidden ? theme.axisLine : 'inherit',
+              cursor: 'pointer',
+            }}
+          >
+            <span
+              aria-hidden
+              style={{
+                width: 20,
+                height: 12,
+                borderRadius: 4,
+                background: hidden ? theme.axisLine : colors[i] ?? colors[colors.length - 1],
+              }}
+            />
+            {name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
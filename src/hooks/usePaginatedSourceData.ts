@@ -0,0 +1,112 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLoadingState, usePaginatedElementData } from '@sigmacomputing/plugin';
+import type { WorkbookElementData } from '@sigmacomputing/plugin';
+
+// Sigma delivers element data in pages of 25,000 values (rows × columns).
+const PAGE_SIZE = 25_000;
+
+// If Sigma never answers a fetch (e.g. the element was already complete),
+// stop showing the loading state after this long.
+const FETCH_TIMEOUT_MS = 15_000;
+
+export interface PaginatedSourceData {
+  data: WorkbookElementData;
+  rowCount: number;
+  loading: boolean;
+  truncated: boolean;
+}
+
+function countRows(data: WorkbookElementData): number {
+  const first = Object.values(data)[0];
+  return Array.isArray(first) ? first.length : 0;
+}
+
+/**
+ * Reads the source element page by page until either every row is loaded or
+ * `rowCeiling` is reached. A page that comes back smaller than PAGE_SIZE means
+ * the element has no more rows. Loading state is mirrored to Sigma through
+ * useLoadingState so the workbook shows its own spinner while pages arrive.
+ */
+export default function usePaginatedSourceData(configId: string, rowCeiling: number): PaginatedSourceData {
+  const [rawData, fetchMore] = usePaginatedElementData(configId);
+  const [loading, setLoading] = useLoadingState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  // Row count before the outstanding fetchMore() call, or null when no fetch
+  // is pending (the next data event is then a fresh dataset, e.g. a filter change).
+  const pendingFromRef = useRef<number | null>(null);
+  // The last data event handled, and whether its page came back full (i.e.
+  // the element may have more rows). Lets a re-run for a new rowCeiling tell
+  // the data it already judged apart from a new page.
+  const seenDataRef = useRef<WorkbookElementData | null>(null);
+  const lastPageFullRef = useRef(false);
+
+  const rawRows = countRows(rawData);
+
+  useEffect(() => {
+    const columnCount = Object.keys(rawData).length;
+    if (rawRows === 0 || columnCount === 0) {
+      seenDataRef.current = rawData;
+      lastPageFullRef.current = false;
+      pendingFromRef.current = null;
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+
+    if (rawData !== seenDataRef.current) {
+      seenDataRef.current = rawData;
+      // Rows added by the pending fetch. A dataset that isn't longer than
+      // what we had is a fresh one (a filter change mid-fetch), so its whole
+      // length is its first page.
+      const pendingFrom = pendingFromRef.current;
+      const newRows = pendingFrom !== null && rawRows > pendingFrom ? rawRows - pendingFrom : rawRows;
+      lastPageFullRef.current = newRows * columnCount >= PAGE_SIZE;
+      pendingFromRef.current = null;
+    } else if (pendingFromRef.current !== null) {
+      // Same data with a fetch still outstanding: keep waiting for it.
+      return;
+    }
+
+    const pageWasFull = lastPageFullRef.current;
+    setHasMore(pageWasFull);
+
+    if (pageWasFull && rawRows < rowCeiling) {
+      pendingFromRef.current = rawRows;
+      setLoading(true);
+      fetchMore();
+    } else {
+      setLoading(false);
+    }
+    // setLoading from useLoadingState is recreated each render; it is safe to omit.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rawData, rowCeiling, fetchMore]);
+
+  useEffect(() => {
+    if (!loading) return;
+    const timer = setTimeout(() => {
+      pendingFromRef.current = null;
+      lastPageFullRef.current = false;
+      setHasMore(false);
+      setLoading(false);
+    }, FETCH_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, rawData]);
+
+  const data = useMemo<WorkbookElementData>(() => {
+    if (rawRows <= rowCeiling) return rawData;
+    const capped: WorkbookElementData = {};
+    Object.entries(rawData).forEach(([colId, values]) => {
+      capped[colId] = values.slice(0, rowCeiling);
+    });
+    return capped;
+  }, [rawData, rawRows, rowCeiling]);
+
+  return {
+    data,
+    rowCount: Math.min(rawRows, rowCeiling),
+    loading,
+    truncated: rawRows >= rowCeiling && (hasMore || rawRows > rowCeiling),
+  };
+}
@@ -0,0 +1,44 @@
+// Aggregation helpers used when several source rows share the same category.
+
+export const AGGREGATIONS = [
+  'Sum',
+  'Average',
+  'Min',
+  'Max',
+  'Count',
+  'Count Distinct',
+  'Median',
+  'First',
+] as const;
+
+export type Aggregation = (typeof AGGREGATIONS)[number];
+
+export function isAggregation(value: unknown): value is Aggregation {
+  return (AGGREGATIONS as readonly unknown[]).includes(value);
+}
+
+// Null / blank cells are ignored by every aggregation (matching Sigma's own
+// behaviour). Count and Count Distinct work on raw cells; everything else
+// works on the numeric values only.
+export function aggregate(cells: unknown[], aggregation: Aggregation): number {
+  const present = cells.filter((c) => c !== null && c !== undefined && c !== '');
+
+  if (aggregation === 'Count') return present.length;
+  if (aggregation === 'Count Distinct') return new Set(present.map((c) => String(c))).size;
+
+  const nums = present.map((c) => Number(c)).filter((v) => !isNaN(v));
+  if (nums.length === 0) return 0;
+
+  switch (aggregation) {
+    case 'Average': return nums.reduce((s, v) => s + v, 0) / nums.length;
+    case 'Min':     return nums.reduce((m, v) => Math.min(m, v), Infinity);
+    case 'Max':     return nums.reduce((m, v) => Math.max(m, v), -Infinity);
+    case 'Median': {
+      const sorted = [...nums].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+    case 'First':   return nums[0];
+    default:        return nums.reduce((s, v) => s + v, 0);
+  }
+}
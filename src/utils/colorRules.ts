@@ -0,0 +1,93 @@
+import type { BarRow } from '../App';
+import { mixColors } from './palettes';
+
+// Conditional formatting: rules that recolor whole bars or single segments.
+// Rules are checked in slot order and the first match wins.
+
+export const COLOR_RULE_COUNT = 3;
+
+export const COLOR_RULE_CONDITIONS = [
+  'None',
+  'Total Above',
+  'Total Below',
+  'Segment Above',
+  'Segment Below',
+  'Above Target',
+  'Below Target',
+  'Top N',
+  'Bottom N',
+  'Color Scale',
+] as const;
+
+export type ColorRuleCondition = (typeof COLOR_RULE_CONDITIONS)[number];
+
+export function isColorRuleCondition(value: unknown): value is ColorRuleCondition {
+  return (COLOR_RULE_CONDITIONS as readonly unknown[]).includes(value);
+}
+
+export interface ColorRule {
+  condition: Exclude<ColorRuleCondition, 'None'>;
+  // Threshold for the Above / Below conditions, N for Top / Bottom N.
+  threshold: number;
+  color: string;
+  // Color Scale only: the measure column (a key of BarRow.measures) and the
+  // color its highest value maps to; `color` is the lowest.
+  measure?: string;
+  endColor?: string;
+}
+
+// Segment color per [row][series] from the first matching rule, or undefined
+// where no rule applies. `target` is the global target line (NaN when off);
+// a row's own per-row target takes precedence.
+export function ruleColors(rows: BarRow[], rules: ColorRule[], target: number): (string | undefined)[][] {
+  if (rules.length === 0) return rows.map(() => []);
+
+  // Rank by total, largest first; ties keep data order.
+  const rank = new Array<number>(rows.length);
+  rows
+    .map((_, i) => i)
+    .sort((a, b) => rows[b].total - rows[a].total)
+    .forEach((ri, k) => { rank[ri] = k; });
+
+  const scaleExtent = (measure: string | undefined) => {
+    const values = rows
+      .map((row) => (measure ? row.measures?.[measure] : undefined))
+      .filter((v): v is number => v !== undefined && !isNaN(v));
+    return values.length > 0
+      ? { min: values.reduce((m, v) => Math.min(m, v), Infinity), max: values.reduce((m, v) => Math.max(m, v), -Infinity) }
+      : null;
+  };
+  const extents = rules.map((rule) => (rule.condition === 'Color Scale' ? scaleExtent(rule.measure) : null));
+
+  const match = (rule: ColorRule, ri: number, value: number, ruleIndex: number): string | undefined => {
+    const row = rows[ri];
+    const rowTarget = row.target ?? target;
+    switch (rule.condition) {
+      case 'Total Above':   return row.total > rule.threshold ? rule.color : undefined;
+      case 'Total Below':   return row.total < rule.threshold ? rule.color : undefined;
+      case 'Segment Above': return value > rule.threshold ? rule.color : undefined;
+      case 'Segment Below': return value < rule.threshold ? rule.color : undefined;
+      case 'Above Target':  return !isNaN(rowTarget) && row.total > rowTarget ? rule.color : undefined;
+      case 'Below Target':  return !isNaN(rowTarget) && row.total < rowTarget ? rule.color : undefined;
+      case 'Top N':         return rank[ri] < rule.threshold ? rule.color : undefined;
+      case 'Bottom N':      return rows.length - 1 - rank[ri] < rule.threshold ? rule.color : undefined;
+      case 'Color Scale': {
+        const extent = extents[ruleIndex];
+        const m = rule.measure ? row.measures?.[rule.measure] : undefined;
+        if (!extent || m === undefined || isNaN(m)) return undefined;
+        const t = extent.max > extent.min ? (m - extent.min) / (extent.max - extent.min) : 1;
+        return mixColors(rule.color, rule.endColor ?? rule.color, t);
+      }
+    }
+  };
+
+  return rows.map((row, ri) =>
+    row.values.map((value) => {
+      for (let k = 0; k < rules.length; k++) {
+        const color = match(rules[k], ri, value, k);
+        if (color) return color;
+      }
+      return undefined;
+    }),
+  );
+}
@@ -0,0 +1,46 @@
+import type { NumberFormatter } from './format';
+
+// Period-over-period change between a bar's total and its comparison value.
+
+export const CHANGE_LABEL_STYLES = ['Total / Change', 'Change Only'] as const;
+
+export function isChangeLabelStyle(value: string): boolean {
+  return (CHANGE_LABEL_STYLES as readonly string[]).includes(value);
+}
+
+export const GOOD_DIRECTIONS = ['Increase is Good', 'Decrease is Good'] as const;
+
+export type GoodDirection = (typeof GOOD_DIRECTIONS)[number];
+
+export function isGoodDirection(value: unknown): value is GoodDirection {
+  return (GOOD_DIRECTIONS as readonly unknown[]).includes(value);
+}
+
+export const CHANGE_COLORS = {
+  good: '#16A34A',
+  bad: '#DC2626',
+  flat: '#94a3b8',
+} as const;
+
+export interface Change {
+  delta: number;
+  // Relative to the comparison's magnitude; null when the comparison is 0.
+  pct: number | null;
+  tone: keyof typeof CHANGE_COLORS;
+}
+
+export function computeChange(current: number, previous: number, goodDirection: GoodDirection): Change {
+  const delta = current - previous;
+  const pct = previous !== 0 ? (delta / Math.abs(previous)) * 100 : null;
+  if (delta === 0) return { delta, pct, tone: 'flat' };
+  const up = delta > 0;
+  return { delta, pct, tone: up === (goodDirection === 'Increase is Good') ? 'good' : 'bad' };
+}
+
+// e.g. "▲ +1.2K (+14.3%)". The arrow follows the sign, not the tone.
+export function formatChange({ delta, pct }: Change, format: NumberFormatter): string {
+  const arrow = delta > 0 ? '▲' : delta < 0 ? '▼' : '■';
+  const sign = delta > 0 ? '+' : '';
+  const rel = pct === null ? '' : ` (${sign}${Math.round(pct * 10) / 10}%)`;
+  return `${arrow} ${sign}${format(delta)}${rel}`;
+}
@@ -0,0 +1,181 @@
+import { init } from 'echarts';
+import type { ECharts, EChartsOption } from 'echarts';
+import type { RowGroup } from '../App';
+
+// Image and data exports for the export menu.
+
+export const EXPORT_FORMATS = ['PNG 1x', 'PNG 2x', 'PNG 3x', 'SVG', 'CSV'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Height of the strip that carries the title above an exported image.
+const EXPORT_TITLE_SPACE = 32;
+
+export function fileNameFor(title: string, extension: string): string {
+  const slug = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'chart'}.${extension}`;
+}
+
+function download(href: string, fileName: string): void {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
+
+function downloadBlob(content: string, type: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  download(url, fileName);
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export interface ImageExportOptions {
+  title: string;
+  titleStyle: { fontFamily?: string; fontSize: number; fontWeight: number; color: string };
+  background: string;
+}
+
+function hasTitle(option: EChartsOption): boolean {
+  const titles = option.title === undefined ? [] : Array.isArray(option.title) ? option.title : [option.title];
+  return titles.some((t) => !!t.text);
+}
+
+// Where each chart sits in the exported image: its offset from the top-left
+// of the charts' combined on-screen bounds, so small multiples keep their grid.
+interface PlacedChart {
+  chart: ECharts;
+  x: number;
+  y: number;
+}
+
+function placeCharts(charts: ECharts[]): { placed: PlacedChart[]; width: number; height: number } {
+  const rects = charts.map((chart) => chart.getDom().getBoundingClientRect());
+  const left = Math.min(...rects.map((r) => r.left));
+  const top = Math.min(...rects.map((r) => r.top));
+  const placed = charts.map((chart, i) => ({ chart, x: Math.round(rects[i].left - left), y: Math.round(rects[i].top - top) }));
+  return {
+    placed,
+    width: Math.max(...placed.map(({ chart, x }) => x + chart.getWidth())),
+    height: Math.max(...placed.map(({ chart, y }) => y + chart.getHeight())),
+  };
+}
+
+// Height of the strip drawn above the charts for the export title: none when
+// there's no title, or when a lone chart already shows it.
+function titleSpaceFor(charts: ECharts[], title: string): number {
+  if (!title) return 0;
+  if (charts.length === 1 && hasTitle(charts[0].getOption() as EChartsOption)) return 0;
+  return EXPORT_TITLE_SPACE;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('could not load the rendered chart'));
+    img.src = src;
+  });
+}
+
+// PNG straight from the live charts, so it's exactly the current view (scroll
+// window, theme, size) less the scroll slider.
+async function exportPng(charts: ECharts[], pixelRatio: number, { title, titleStyle, background }: ImageExportOptions): Promise<void> {
+  const { placed, width, height } = placeCharts(charts);
+  const space = titleSpaceFor(charts, title);
+  const images = await Promise.all(placed.map(({ chart }) =>
+    loadImage(chart.getDataURL({ type: 'png', pixelRatio, backgroundColor: background, excludeComponents: ['dataZoom'] }))));
+  const canvas = document.createElement('canvas');
+  canvas.width = width * pixelRatio;
+  canvas.height = (height + space) * pixelRatio;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('no 2d canvas context');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  images.forEach((img, i) => ctx.drawImage(img, placed[i].x * pixelRatio, (placed[i].y + space) * pixelRatio));
+  if (space > 0) {
+    ctx.font = `${titleStyle.fontWeight} ${titleStyle.fontSize * pixelRatio}px ${titleStyle.fontFamily || 'sans-serif'}`;
+    ctx.fillStyle = titleStyle.color;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(title, 8 * pixelRatio, (space / 2) * pixelRatio);
+  }
+  download(canvas.toDataURL('image/png'), fileNameFor(title, 'png'));
+}
+
+// The live charts render to canvas, so SVG comes from each one's current
+// option (getOption keeps the scroll window, legend state and theme) rendered
+// server-side at the same size, with the scroll slider hidden.
+function chartSvg(chart: ECharts): string {
+  const current = chart.getOption() as EChartsOption;
+  const dataZoom = ((current.dataZoom ?? []) as object[]).map((zoom) => ({ ...zoom, show: false }));
+  const svg = init(null, undefined, { renderer: 'svg', ssr: true, width: chart.getWidth(), height: chart.getHeight() });
+  try {
+    svg.setOption({ ...current, dataZoom, animation: false } as EChartsOption);
+    return svg.renderToSVGString();
+  } finally {
+    svg.dispose();
+  }
+}
+
+function exportSvg(charts: ECharts[], { title, titleStyle, background }: ImageExportOptions): void {
+  const { placed, width, height } = placeCharts(charts);
+  const space = titleSpaceFor(charts, title);
+  const font = `font-family="${escapeXml(titleStyle.fontFamily || 'sans-serif')}" font-size="${titleStyle.fontSize}" font-weight="${titleStyle.fontWeight}"`;
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height + space}" viewBox="0 0 ${width} ${height + space}">`,
+    `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>`,
+    ...(space > 0 ? [`<text x="8" y="${space / 2}" dominant-baseline="middle" fill="${escapeXml(titleStyle.color)}" ${font}>${escapeXml(title)}</text>`] : []),
+    ...placed.map(({ chart, x, y }) => `<g transform="translate(${x} ${y + space})">${chartSvg(chart)}</g>`),
+    '</svg>',
+  ].join('\n');
+  downloadBlob(svg, 'image/svg+xml', fileNameFor(title, 'svg'));
+}
+
+// One chart, or every panel of a small-multiples grid laid out as on screen.
+export async function exportImage(charts: ECharts[], format: 'png' | 'svg', pixelRatio: number, options: ImageExportOptions): Promise<void> {
+  if (charts.length === 0) return;
+  if (format === 'svg') exportSvg(charts, options);
+  else await exportPng(charts, pixelRatio, options);
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One line per bar with the aggregated series values and total, plus the
+// per-row target / comparison columns when any row has them. With a
+// facetName, the groups are small-multiples panels and lead each line with
+// their facet value.
+export function rowsToCsv(groups: RowGroup[], seriesNames: string[], comparisonName: string, facetName?: string): string {
+  const rows = groups.flatMap((group) => group.rows);
+  const hasTarget = rows.some((row) => row.target !== undefined);
+  const hasComparison = rows.some((row) => row.comparison !== undefined);
+  const header = [
+    ...(facetName !== undefined ? [facetName || 'Facet'] : []),
+    'Category',
+    ...seriesNames,
+    'Total',
+    ...(hasTarget ? ['Target'] : []),
+    ...(hasComparison ? [comparisonName || 'Comparison'] : []),
+  ];
+  const lines = groups.flatMap((group) => group.rows.map((row) => [
+    ...(facetName !== undefined ? [group.facet] : []),
+    row.category,
+    ...seriesNames.map((_, si) => row.values[si]),
+    row.total,
+    ...(hasTarget ? [row.target] : []),
+    ...(hasComparison ? [row.comparison] : []),
+  ]));
+  return [header, ...lines].map((line) => line.map(csvCell).join(',')).join('\r\n');
+}
+
+export function exportCsv(groups: RowGroup[], seriesNames: string[], comparisonName: string, title: string, facetName?: string): void {
+  downloadBlob(rowsToCsv(groups, seriesNames, comparisonName, facetName), 'text/csv;charset=utf-8', fileNameFor(title, 'csv'));
+}
@@ -0,0 +1,76 @@
+import { format as d3Format } from 'd3-format';
+
+// Number formatting for labels, tooltip rows, totals and axis ticks.
+// Each series is formatted with its Sigma column format (a d3-format string);
+// series without one fall back to the editor-panel default.
+
+export type NumberFormatter = (n: number) => string;
+
+export const FALLBACK_FORMATS = ['Fixed Decimals', 'Compact', 'Percent'] as const;
+
+export type FallbackFormat = (typeof FALLBACK_FORMATS)[number];
+
+export function isFallbackFormat(value: unknown): value is FallbackFormat {
+  return (FALLBACK_FORMATS as readonly unknown[]).includes(value);
+}
+
+// Column metadata as delivered by useElementColumns — `format` is present at
+// runtime for formatted columns but isn't part of the SDK's published type.
+export interface ColumnFormatInfo {
+  format?: { format?: string };
+}
+
+export function createFallbackFormatter(fallback: FallbackFormat, decimals: number): NumberFormatter {
+  switch (fallback) {
+    case 'Compact': {
+      const nf = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: Math.max(decimals, 1) });
+      return (n) => nf.format(n);
+    }
+    case 'Percent': {
+      const f = d3Format(`.${decimals}%`);
+      return (n) => f(n);
+    }
+    default: {
+      const nf = new Intl.NumberFormat(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+      return (n) => nf.format(n);
+    }
+  }
+}
+
+// Specifiers already reported as invalid. Formatters are rebuilt on every
+// render, so without this one bad column format would flood the console.
+const warnedSpecifiers = new Set<string>();
+
+// Builds a formatter from a Sigma column format, or returns the fallback when
+// the column has no format or the format string isn't valid d3-format syntax.
+export function createColumnFormatter(
+  specifier: string | undefined,
+  fallback: NumberFormatter,
+): NumberFormatter {
+  if (!specifier) return fallback;
+  try {
+    const f = d3Format(specifier);
+    return (n) => f(n);
+  } catch {
+    if (!warnedSpecifiers.has(specifier)) {
+      warnedSpecifiers.add(specifier);
+      console.warn(`[plugin] unsupported number format "${specifier}", using default`);
+    }
+    return fallback;
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// For text interpolated into tooltip markup (category values, column names…).
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+}
+
+// For text interpolated into ECharts rich-text labels, where "{style|text}"
+// is markup. Wraps the text in tokens of `style` (an undefined style just
+// inherits the label's own): token text can't hold "}", so each one is left
+// as plain text between tokens, where it can no longer close or open markup.
+export function richText(text: string, style = 'plain'): string {
+  return text.split('}').map((part) => (part ? `{${style}|${part}}` : '')).join('}');
+}
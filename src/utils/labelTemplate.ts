@@ -0,0 +1,61 @@
+import type { NumberFormatter } from './format';
+
+// Value-label templates such as "{value} of {target} ({pct:0})".
+//
+//   {category}  the bar's category
+//   {series}    the segment's series name ('' for a whole-bar label)
+//   {value}     the segment value (the total for a whole-bar label)
+//   {total}     the bar total
+//   {target}    the bar's target — per-row or the global line ('' when none)
+//   {pct}       value as a percent of the target when there is one,
+//               otherwise of the bar total
+//
+// Numeric tokens take an optional decimal count, e.g. {value:1} or {pct:0}
+// (at most 20); without one, numbers use the column format and percents one
+// decimal. Unknown tokens are left as written.
+//
+// Labels that also carry rich-text markup pass `escape` (richText) so a
+// substituted value such as a category name can't be read as markup.
+
+export interface LabelTokens {
+  category: string;
+  series: string;
+  value: number;
+  total: number;
+  target?: number;
+}
+
+const TOKEN = /\{(\w+)(?::(\d+))?\}/g;
+
+const MAX_DECIMALS = 20;
+
+function fixed(decimals: number): NumberFormatter {
+  const digits = Math.min(decimals, MAX_DECIMALS);
+  const nf = new Intl.NumberFormat(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return (n) => nf.format(n);
+}
+
+export function renderLabelTemplate(
+  template: string,
+  tokens: LabelTokens,
+  format: NumberFormatter,
+  escape: (text: string) => string = (text) => text,
+): string {
+  return template.replace(TOKEN, (match, name: string, digits: string | undefined) => {
+    const num = digits === undefined ? format : fixed(Number(digits));
+    switch (name) {
+      case 'category': return escape(tokens.category);
+      case 'series':   return escape(tokens.series);
+      case 'value':    return escape(num(tokens.value));
+      case 'total':    return escape(num(tokens.total));
+      case 'target':   return tokens.target === undefined ? '' : escape(num(tokens.target));
+      case 'pct': {
+        const base = tokens.target ?? tokens.total;
+        if (!base) return '';
+        const pct = (tokens.value / Math.abs(base)) * 100;
+        return escape(`${fixed(digits === undefined ? 1 : Number(digits))(pct)}%`);
+      }
+      default:         return match;
+    }
+  });
+}
@@ -0,0 +1,31 @@
+// Canvas-based text measurement, for layout decisions made before ECharts
+// renders (label rotation, legend width), and the font those use.
+
+let context: CanvasRenderingContext2D | null = null;
+
+const DEFAULT_FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+
+export function measureText(text: string, fontSize: number, fontFamily?: string, fontWeight: number | string = 'normal'): number {
+  if (!context) {
+    if (typeof document === 'undefined') return text.length * fontSize * 0.6;
+    context = document.createElement('canvas').getContext('2d');
+    if (!context) return text.length * fontSize * 0.6;
+  }
+  context.font = `${fontWeight} ${fontSize}px ${fontFamily || DEFAULT_FONT_FAMILY}`;
+  return context.measureText(text).width;
+}
+
+// Map fontFamily dropdown value → ECharts fontFamily string.
+// For Workbook Theme, read the document's computed font so ECharts can
+// measure text correctly (avoids cut-off when using a non-default font).
+export function fontStyleFor(fontFamily: string): { fontFamily?: string } {
+  if (!fontFamily || fontFamily === 'Default') return {};
+  if (fontFamily === 'Workbook Theme') {
+    const detected =
+      typeof window !== 'undefined'
+        ? getComputedStyle(document.body).fontFamily
+        : '';
+    return detected ? { fontFamily: detected } : {};
+  }
+  return { fontFamily };
+}
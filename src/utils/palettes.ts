@@ -0,0 +1,85 @@
+// Named color palettes. Each one expands to any number of series:
+// categorical palettes cycle through progressively lighter tints, while
+// sequential / diverging palettes are interpolated along their stops.
+
+type PaletteKind = 'categorical' | 'interpolated';
+
+interface Palette {
+  kind: PaletteKind;
+  colors: string[];
+}
+
+const PALETTES = {
+  Default: { kind: 'categorical', colors: ['#2563EB', '#93C5FD', '#E2E8F0', '#60A5FA', '#BFDBFE', '#DBEAFE'] },
+  Categorical: { kind: 'categorical', colors: ['#2563EB', '#F97316', '#10B981', '#E11D48', '#8B5CF6', '#EAB308', '#0EA5E9', '#EC4899', '#64748B', '#84CC16'] },
+  // Okabe–Ito: distinguishable under the common forms of color blindness.
+  'Colorblind Safe': { kind: 'categorical', colors: ['#0072B2', '#E69F00', '#009E73', '#CC79A7', '#56B4E9', '#D55E00', '#F0E442', '#000000'] },
+  'Sequential Blue': { kind: 'interpolated', colors: ['#1E3A8A', '#2563EB', '#60A5FA', '#BFDBFE'] },
+  'Sequential Green': { kind: 'interpolated', colors: ['#14532D', '#16A34A', '#4ADE80', '#BBF7D0'] },
+  'Diverging Red–Blue': { kind: 'interpolated', colors: ['#B91C1C', '#F87171', '#F1F5F9', '#60A5FA', '#1D4ED8'] },
+  'Diverging Orange–Purple': { kind: 'interpolated', colors: ['#C2410C', '#FDBA74', '#F1F5F9', '#C4B5FD', '#6D28D9'] },
+} satisfies Record<string, Palette>;
+
+export type PaletteName = keyof typeof PALETTES;
+
+export const PALETTE_NAMES = Object.keys(PALETTES) as PaletteName[];
+
+export function isPaletteName(value: unknown): value is PaletteName {
+  return typeof value === 'string' && value in PALETTES;
+}
+
+function parseHex(hex: string): [number, number, number] {
+  const h = hex.replace('#', '');
+  const full = h.length === 3 ? h.split('').map((c) => c + c).join('') : h;
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function toHex([r, g, b]: number[]): string {
+  return `#${[r, g, b].map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR.test(value);
+}
+
+// Blends `a` towards `b` by t (0 = a, 1 = b).
+export function mixColors(a: string, b: string, t: number): string {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  return toHex(ca.map((v, i) => v + (cb[i] - v) * t));
+}
+
+export function paletteColors(name: PaletteName, count: number): string[] {
+  const { kind, colors } = PALETTES[name] as Palette;
+  if (count <= 0) return [];
+
+  if (kind === 'interpolated') {
+    if (count === 1) return [colors[0]];
+    return Array.from({ length: count }, (_, i) => {
+      const pos = (i / (count - 1)) * (colors.length - 1);
+      const lo = Math.floor(pos);
+      const hi = Math.min(colors.length - 1, lo + 1);
+      return mixColors(colors[lo], colors[hi], pos - lo);
+    });
+  }
+
+  // Categorical: each pass over the base colors is a little lighter than the
+  // last, so series beyond the palette length stay distinguishable.
+  return Array.from({ length: count }, (_, i) => {
+    const round = Math.floor(i / colors.length);
+    const base = colors[i % colors.length];
+    return round === 0 ? base : mixColors(base, '#FFFFFF', Math.min(0.75, round * 0.3));
+  });
+}
+
+// Colors for a "Color by column" field: hex values are used as-is, anything
+// else is treated as a category and given the next palette color in order
+// of first appearance.
+export function resolveValueColors(values: (string | undefined)[], name: PaletteName): (string | undefined)[] {
+  const keys = Array.from(new Set(values.filter((v): v is string => v !== undefined && !isHexColor(v))));
+  const colors = paletteColors(name, keys.length);
+  const byKey = new Map(keys.map((k, i) => [k, colors[i]]));
+  return values.map((v) => (v === undefined ? undefined : isHexColor(v) ? v : byKey.get(v)));
+}
@@ -0,0 +1,61 @@
+// Reference lines: constants, column values or statistics over the bar totals,
+// drawn as vertical markLines alongside the target line.
+
+export const REFERENCE_LINE_COUNT = 3;
+
+export const REFERENCE_LINE_KINDS = ['None', 'Constant', 'Column', 'Mean', 'Median', 'Percentile', 'Min', 'Max'] as const;
+
+export type ReferenceLineKind = (typeof REFERENCE_LINE_KINDS)[number];
+
+export function isReferenceLineKind(value: unknown): value is ReferenceLineKind {
+  return (REFERENCE_LINE_KINDS as readonly unknown[]).includes(value);
+}
+
+export const REFERENCE_LINE_STYLES = ['Solid', 'Dashed', 'Dotted'] as const;
+
+export const REFERENCE_LABEL_POSITIONS = ['Top', 'Middle', 'Bottom', 'Hidden'] as const;
+
+export type ReferenceLabelPosition = (typeof REFERENCE_LABEL_POSITIONS)[number];
+
+export interface ReferenceLine {
+  value: number;
+  // Short description used when no label text is given, e.g. 'Mean' or 'P90'.
+  name: string;
+  label: string;
+  labelPosition: ReferenceLabelPosition;
+  color: string;
+  dash: 'solid' | 'dashed' | 'dotted';
+  width: number;
+}
+
+// Shaded region between two reference lines.
+export interface ReferenceBand {
+  from: number;
+  to: number;
+  color: string;
+}
+
+// Linear-interpolated percentile (p in 0–100), the same definition as
+// Excel's PERCENTILE.INC.
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+// Evaluates a statistic kind over the bar totals. Returns NaN for kinds that
+// aren't statistics or when there is nothing to measure.
+export function computeStatistic(kind: ReferenceLineKind, totals: number[], p: number): number {
+  if (totals.length === 0) return NaN;
+  switch (kind) {
+    case 'Mean':       return totals.reduce((s, v) => s + v, 0) / totals.length;
+    case 'Median':     return percentile(totals, 50);
+    case 'Percentile': return percentile(totals, p);
+    case 'Min':        return totals.reduce((m, v) => Math.min(m, v), Infinity);
+    case 'Max':        return totals.reduce((m, v) => Math.max(m, v), -Infinity);
+    default:           return NaN;
+  }
+}
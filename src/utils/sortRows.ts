@@ -0,0 +1,67 @@
+import type { BarRow } from '../App';
+
+// Category ordering and Top-N folding, applied after aggregation.
+
+export const SORT_OPTIONS = ['Data Order', 'Total', 'Series', 'Category Name'] as const;
+
+export type SortBy = (typeof SORT_OPTIONS)[number];
+
+export function isSortBy(value: unknown): value is SortBy {
+  return (SORT_OPTIONS as readonly unknown[]).includes(value);
+}
+
+export interface SortOptions {
+  sortBy: SortBy;
+  descending: boolean;
+  // Index into BarRow.values used when sortBy is 'Series'; -1 falls back to Total.
+  seriesIndex: number;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function sortRows(rows: BarRow[], { sortBy, descending, seriesIndex }: SortOptions): BarRow[] {
+  if (sortBy === 'Data Order') return rows;
+
+  const compare = (a: BarRow, b: BarRow): number => {
+    if (sortBy === 'Category Name') return collator.compare(a.category, b.category);
+    if (sortBy === 'Series' && seriesIndex >= 0) {
+      return (a.values[seriesIndex] ?? 0) - (b.values[seriesIndex] ?? 0);
+    }
+    return a.total - b.total;
+  };
+  // Array.prototype.sort is stable, so ties keep their data order.
+  return [...rows].sort((a, b) => (descending ? compare(b, a) : compare(a, b)));
+}
+
+// Folds a set of categories into one bar. Supplied by the caller, which
+// re-aggregates the categories' source rows: per-category averages, counts
+// or medians can't simply be added up.
+export type FoldRows = (categories: string[]) => BarRow;
+
+// Keeps the first `limit` rows and folds the rest into a single "Other"
+// bucket. The bucket remembers which categories it holds so clicks can
+// report them.
+export function limitRows(rows: BarRow[], limit: number, fold: FoldRows): BarRow[] {
+  if (!(limit > 0) || rows.length <= limit) return rows;
+
+  const otherCategories = rows.slice(limit).map((row) => row.category);
+  return [...rows.slice(0, limit), { ...fold(otherCategories), otherCategories }];
+}
+
+// Lays a subset of the data (e.g. one small-multiples panel) out in the same
+// order as `layout`, the full dataset after sorting and Top-N. Categories the
+// subset lacks become empty rows so every panel lines up, and the "Other" bar
+// folds the same categories it does in the layout. Colors follow the layout.
+export function alignRows(rows: BarRow[], layout: BarRow[], fold: FoldRows): BarRow[] {
+  const byCategory = new Map(rows.map((row) => [row.category, row]));
+  const seriesCount = layout[0]?.values.length ?? 0;
+  return layout.map((slot) => {
+    const aligned: BarRow = slot.otherCategories
+      ? { ...fold(slot.otherCategories), otherCategories: slot.otherCategories }
+      : { ...(byCategory.get(slot.category) ?? { category: slot.category, values: Array<number>(seriesCount).fill(0), total: 0 }) };
+    aligned.category = slot.category;
+    if (slot.color) aligned.color = slot.color;
+    else delete aligned.color;
+    return aligned;
+  });
+}
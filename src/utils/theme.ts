@@ -0,0 +1,114 @@
+import { isHexColor, mixColors } from './palettes';
+
+// Text and line colors for light and dark workbook backgrounds.
+
+export const THEME_MODES = ['Auto', 'Light', 'Dark'] as const;
+
+export type ThemeMode = (typeof THEME_MODES)[number];
+
+export function isThemeMode(value: unknown): value is ThemeMode {
+  return (THEME_MODES as readonly unknown[]).includes(value);
+}
+
+export interface ChartTheme {
+  dark: boolean;
+  // Titles and emphasised text.
+  strong: string;
+  // Category labels.
+  label: string;
+  // Value labels and the legend.
+  muted: string;
+  // Axis ticks and secondary notes.
+  subtle: string;
+  axisLine: string;
+  link: string;
+  warning: string;
+  // ECharts' own tooltip is white; dark mode needs its own. Undefined keeps the default.
+  tooltip?: { backgroundColor: string; borderColor: string; textColor: string };
+}
+
+export const LIGHT_THEME: ChartTheme = {
+  dark: false,
+  strong: '#1e293b',
+  label: '#475569',
+  muted: '#64748b',
+  subtle: '#94a3b8',
+  axisLine: '#cbd5e1',
+  link: '#2563EB',
+  warning: '#b45309',
+};
+
+export const DARK_THEME: ChartTheme = {
+  dark: true,
+  strong: '#f8fafc',
+  label: '#e2e8f0',
+  muted: '#cbd5e1',
+  subtle: '#94a3b8',
+  axisLine: '#475569',
+  link: '#60A5FA',
+  warning: '#fbbf24',
+  tooltip: { backgroundColor: '#1e293b', borderColor: '#334155', textColor: '#f1f5f9' },
+};
+
+// Parses '#rgb', '#rrggbb' and 'rgb()/rgba()' strings; null for anything
+// else (including fully transparent colors, which show the page behind).
+function parseColor(color: string): [number, number, number] | null {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].split('').map((c) => c + c).join('') : hex[1];
+    return [0, 2, 4].map((i) => parseInt(h.slice(i, i + 2), 16)) as [number, number, number];
+  }
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i.exec(color.trim());
+  if (!rgb) return null;
+  if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return null;
+  return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+}
+
+// WCAG relative luminance (0 = black, 1 = white).
+function luminance([r, g, b]: [number, number, number]): number {
+  const [R, G, B] = [r, g, b].map((v) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+}
+
+function contrastRatio(a: [number, number, number], b: [number, number, number]): number {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+// 'Auto' goes dark when the background is closer to black than to white; an
+// unknown or transparent background is treated as light.
+export function resolveTheme(mode: ThemeMode, background: string | undefined): ChartTheme {
+  if (mode === 'Light') return LIGHT_THEME;
+  if (mode === 'Dark') return DARK_THEME;
+  const rgb = background ? parseColor(background) : null;
+  return rgb && luminance(rgb) < 0.18 ? DARK_THEME : LIGHT_THEME;
+}
+
+// Bars, like other graphical objects, want a 3:1 contrast with what's behind
+// them. On dark backgrounds, palette colors below that are lightened step by
+// step until they reach it. Light backgrounds keep the palettes as designed.
+export function withContrast(colors: string[], background: string | undefined, theme: ChartTheme): string[] {
+  const bg = background ? parseColor(background) : null;
+  if (!theme.dark || !bg) return colors;
+  return colors.map((color) => {
+    const rgb = parseColor(color);
+    if (!rgb || !isHexColor(color) || contrastRatio(rgb, bg) >= 3) return color;
+    for (let t = 0.1; t < 1; t += 0.1) {
+      const lighter = mixColors(color, '#FFFFFF', t);
+      const lrgb = parseColor(lighter);
+      if (lrgb && contrastRatio(lrgb, bg) >= 3) return lighter;
+    }
+    return '#FFFFFF';
+  });
+}
+
+// Dark or white text, whichever reads better on `fill` (labels inside bars).
+export function readableTextColor(fill: string): string {
+  const rgb = parseColor(fill);
+  if (!rgb) return LIGHT_THEME.strong;
+  const dark = parseColor(LIGHT_THEME.strong) as [number, number, number];
+  return contrastRatio(rgb, dark) >= contrastRatio(rgb, [255, 255, 255]) ? LIGHT_THEME.strong : '#FFFFFF';
+}
@@ -0,0 +1,15 @@
+import type { CSSProperties } from 'react';
+
+// Keeps content in the accessibility tree while taking it off screen (the
+// usual "sr-only" clip): for the live region and the chart's data table.
+export const VISUALLY_HIDDEN: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};